@@ -0,0 +1,77 @@
+#!/usr/bin/env node
+import { recordCheck, recordGenerate } from './record';
+import { pay, verify } from './payments';
+import { ledger } from './ledger';
+import { UsageError } from './util';
+
+const USAGE = `Usage: dns402 <command> [options]
+
+Commands:
+  record generate --wallet <address> --price <n> --currency <c>
+                  [--ttl <s>] [--model <m>] [--mint <address>]
+                  [--offer <price:currency[:mint]>]... [--callback <url>]
+                  [--domain <domain>] [--sign-key <keypair.json>]
+      Build a DNS402 TXT record value (a full record with --domain)
+
+  record check <domain> [--doh <endpoint>]
+      Resolve, parse and lint the live _402 record of a domain
+
+  verify <signature> --wallet <address> --price <n> --currency <c>
+         [--mint <address>] [--payer <address>] [--max-age <s>]
+         [--tolerance <fraction>] [--commitment confirmed|finalized] [--rpc <url>[,<url>...]]
+      Check a payment transaction on chain
+
+  pay <url> --keypair <keypair.json> --max-amount <n> [--currency <c>]
+      [-X <method>] [-H "Name: value"]... [-d <body>] [--ledger <file>]
+      [--offer-policy require-match|trust-dns|trust-http] [--rpc <url>[,<url>...]]
+      Fetch a URL, paying a 402 response automatically
+
+  ledger <file> [--domain <domain>] [--type <type>] [--since <date>]
+         [--until <date>] [--format table|csv|json]
+      List payments recorded by a file ledger
+
+Every command accepts --json for machine-readable output. Several --rpc
+endpoints are pooled with failover.`;
+
+async function main(argv: string[]): Promise<number> {
+  const [command, ...rest] = argv;
+
+  switch (command) {
+    case 'record': {
+      const [subcommand, ...args] = rest;
+      if (subcommand === 'generate') return recordGenerate(args);
+      if (subcommand === 'check') return recordCheck(args);
+      throw new UsageError(`Unknown record subcommand: ${subcommand ?? '(none)'}`);
+    }
+    case 'verify':
+      return verify(rest);
+    case 'pay':
+      return pay(rest);
+    case 'ledger':
+      return ledger(rest);
+    case 'help':
+    case '--help':
+    case '-h':
+    case undefined:
+      console.log(USAGE);
+      return 0;
+    default:
+      throw new UsageError(`Unknown command: ${command}`);
+  }
+}
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  error => {
+    // parseArgs reports bad flags with ERR_PARSE_ARGS_* codes
+    const usage =
+      error instanceof UsageError || String(error?.code).startsWith('ERR_PARSE_ARGS');
+    console.error(`dns402: ${error instanceof Error ? error.message : error}`);
+    if (usage) {
+      console.error(`\n${USAGE}`);
+    }
+    process.exitCode = usage ? 2 : 1;
+  }
+);
@@ -0,0 +1,104 @@
+import { access } from 'fs/promises';
+import { parseArgs } from 'util';
+import type { LedgerEntry, LedgerEntryType } from '../core/types';
+import { FileLedger, exportLedger } from '../client/ledger';
+import { print, UsageError } from './util';
+
+const TYPES: LedgerEntryType[] = [
+  'discovery',
+  'payment_attempt',
+  'payment_success',
+  'payment_failure',
+  'payment_unknown',
+];
+
+/**
+ * dns402 ledger: list and total payments recorded by a FileLedger
+ */
+export async function ledger(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      domain: { type: 'string' },
+      type: { type: 'string' },
+      since: { type: 'string' },
+      until: { type: 'string' },
+      format: { type: 'string', default: 'table' },
+      json: { type: 'boolean', default: false },
+    },
+  });
+
+  const file = positionals[0];
+  if (!file) {
+    throw new UsageError('ledger needs a ledger file');
+  }
+  const type = values.type as LedgerEntryType | undefined;
+  if (type && !TYPES.includes(type)) {
+    throw new UsageError(`--type must be one of ${TYPES.join(', ')}`);
+  }
+  const format = values.json ? 'json' : values.format;
+  if (format !== 'table' && format !== 'csv' && format !== 'json') {
+    throw new UsageError('--format must be table, csv or json');
+  }
+
+  // FileLedger reads a missing file as empty; here it is a mistyped path
+  try {
+    await access(file);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Error(`No ledger file at ${file}`);
+    }
+    throw error;
+  }
+
+  const entries = await new FileLedger(file).query({
+    domain: values.domain,
+    type,
+    from: parseDate('since', values.since),
+    to: parseDate('until', values.until),
+  });
+
+  if (format !== 'table') {
+    console.log(exportLedger(entries, format));
+    return 0;
+  }
+
+  for (const entry of entries) {
+    console.log(
+      [
+        new Date(entry.timestamp).toISOString(),
+        entry.type.padEnd(15),
+        entry.domain,
+        entry.price !== undefined ? `${entry.price} ${entry.currency}` : '',
+        entry.signature || entry.error || '',
+      ].join('  ')
+    );
+  }
+  print(false, { entries: entries.length, ...totals(entries) });
+  return 0;
+}
+
+/**
+ * Total paid per currency
+ */
+function totals(entries: LedgerEntry[]): Record<string, number> {
+  const result: Record<string, number> = {};
+  for (const entry of entries) {
+    if (entry.type !== 'payment_success' || entry.price === undefined || !entry.currency) continue;
+    const key = `paid ${entry.currency}`;
+    result[key] = Math.round(((result[key] || 0) + entry.price) * 1e9) / 1e9;
+  }
+  return result;
+}
+
+function parseDate(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new UsageError(`--${name} must be a date, got "${value}"`);
+  }
+  return time;
+}
@@ -0,0 +1,129 @@
+import { parseArgs } from 'util';
+import type { OfferPolicy, PaymentCommitment, SupportedCurrency } from '../core/types';
+import { createConnection, verifyPayment } from '../core/solana';
+import { DNS402Client } from '../client/client';
+import { FileLedger, MemoryLedger } from '../client/ledger';
+import { parseEndpoints, parseNumber, print, readKeypair, required, UsageError } from './util';
+
+/**
+ * dns402 verify: check a payment transaction against a wallet and price
+ */
+export async function verify(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      wallet: { type: 'string' },
+      price: { type: 'string' },
+      currency: { type: 'string' },
+      mint: { type: 'string' },
+      payer: { type: 'string' },
+      'max-age': { type: 'string' },
+      tolerance: { type: 'string' },
+      commitment: { type: 'string' },
+      rpc: { type: 'string' },
+      json: { type: 'boolean', default: false },
+    },
+  });
+
+  const signature = positionals[0];
+  if (!signature) {
+    throw new UsageError('verify needs a transaction signature');
+  }
+  const commitment = values.commitment as PaymentCommitment | undefined;
+  if (commitment && commitment !== 'confirmed' && commitment !== 'finalized') {
+    throw new UsageError('--commitment must be confirmed or finalized');
+  }
+
+  const result = await verifyPayment(
+    createConnection(parseEndpoints(values.rpc)),
+    signature,
+    required('wallet', values.wallet),
+    required('price', parseNumber('price', values.price)),
+    required('currency', values.currency).toUpperCase() as SupportedCurrency,
+    {
+      payer: values.payer,
+      mint: values.mint,
+      maxAge: parseNumber('max-age', values['max-age']),
+      tolerance: parseNumber('tolerance', values.tolerance),
+      commitment,
+    }
+  );
+
+  print(values.json, { signature, ...result });
+  return result.valid ? 0 : 1;
+}
+
+/**
+ * dns402 pay: fetch a URL, paying a 402 response from a keypair file
+ */
+export async function pay(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      keypair: { type: 'string', short: 'k' },
+      'max-amount': { type: 'string' },
+      currency: { type: 'string' },
+      rpc: { type: 'string' },
+      method: { type: 'string', short: 'X', default: 'GET' },
+      header: { type: 'string', short: 'H', multiple: true },
+      data: { type: 'string', short: 'd' },
+      ledger: { type: 'string' },
+      'offer-policy': { type: 'string' },
+      json: { type: 'boolean', default: false },
+    },
+  });
+
+  const url = positionals[0];
+  if (!url) {
+    throw new UsageError('pay needs a URL');
+  }
+
+  const headers = new Headers();
+  for (const header of values.header || []) {
+    const separator = header.indexOf(':');
+    if (separator <= 0) {
+      throw new UsageError(`--header must be "Name: value", got "${header}"`);
+    }
+    headers.append(header.slice(0, separator).trim(), header.slice(separator + 1).trim());
+  }
+
+  const ledger = values.ledger ? new FileLedger(values.ledger) : new MemoryLedger();
+  const startedAt = Date.now();
+  const client = new DNS402Client({
+    keypair: await readKeypair(required('keypair', values.keypair)),
+    rpcEndpoint: parseEndpoints(values.rpc),
+    autoPay: {
+      enabled: true,
+      maxAmount: required('max-amount', parseNumber('max-amount', values['max-amount'])),
+      currency: (values.currency || 'USDC').toUpperCase(),
+    },
+    offerPolicy: values['offer-policy'] as OfferPolicy | undefined,
+    ledger,
+  });
+
+  const response = await client.fetch(url, {
+    method: values.method,
+    headers,
+    body: values.data,
+  });
+  const body = await response.text();
+  const payments = await ledger.query({ type: 'payment_success', from: startedAt });
+
+  if (values.json) {
+    print(true, {
+      status: response.status,
+      headers: Object.fromEntries(response.headers),
+      body,
+      payments,
+    });
+  } else {
+    for (const payment of payments) {
+      console.error(`paid ${payment.price} ${payment.currency} to ${payment.wallet} (${payment.signature})`);
+    }
+    console.error(`HTTP ${response.status}`);
+    console.log(body);
+  }
+  return response.ok ? 0 : 1;
+}
@@ -0,0 +1,199 @@
+import { parseArgs } from 'util';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import type { DNS402Offer, DNS402Record, DNS402Resolver, PaymentModel } from '../core/types';
+import { generateRecord, generateDNSRecordString, parseRecord } from '../core/dns';
+import { createDoHResolver, getDefaultResolver } from '../core/resolver';
+import { parseNumber, print, readKeypair, required, UsageError } from './util';
+
+const MODELS: PaymentModel[] = ['per-request', 'session', 'subscription', 'prepaid'];
+const KNOWN_CURRENCIES = ['SOL', 'USDC', 'DNS402'];
+
+/**
+ * dns402 record generate: build a TXT record value from flags
+ */
+export async function recordGenerate(args: string[]): Promise<number> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      wallet: { type: 'string' },
+      price: { type: 'string' },
+      currency: { type: 'string' },
+      ttl: { type: 'string' },
+      model: { type: 'string' },
+      mint: { type: 'string' },
+      offer: { type: 'string', multiple: true },
+      callback: { type: 'string' },
+      domain: { type: 'string' },
+      'sign-key': { type: 'string' },
+      json: { type: 'boolean', default: false },
+    },
+  });
+
+  const model = values.model as PaymentModel | undefined;
+  if (model && !MODELS.includes(model)) {
+    throw new UsageError(`--model must be one of ${MODELS.join(', ')}`);
+  }
+
+  const config = {
+    wallet: required('wallet', values.wallet),
+    price: required('price', parseNumber('price', values.price)),
+    currency: required('currency', values.currency).toUpperCase(),
+    ttl: parseNumber('ttl', values.ttl),
+    model,
+    mint: values.mint,
+    offers: (values.offer || []).map(parseOffer),
+    callback: values.callback,
+    signer: values['sign-key']
+      ? Keypair.fromSecretKey(await readKeypair(values['sign-key']))
+      : undefined,
+  };
+
+  const value = generateRecord(config);
+  // Refuse to print what record check would reject once published
+  const { errors } = lintRecord(value);
+  if (errors.length) {
+    for (const error of errors) console.error(`error: ${error}`);
+    return 1;
+  }
+  const record = values.domain ? generateDNSRecordString(values.domain, config) : undefined;
+
+  if (values.json) {
+    print(true, { name: values.domain ? `_402.${values.domain}` : undefined, value, record });
+  } else {
+    console.log(record || value);
+  }
+  return 0;
+}
+
+/**
+ * dns402 record check: resolve, parse and lint a live record
+ */
+export async function recordCheck(args: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      doh: { type: 'string' },
+      json: { type: 'boolean', default: false },
+    },
+  });
+
+  const domain = positionals[0];
+  if (!domain) {
+    throw new UsageError('record check needs a domain');
+  }
+
+  const resolver: DNS402Resolver = values.doh
+    ? createDoHResolver({ endpoint: values.doh })
+    : getDefaultResolver();
+  const name = `_402.${domain}`;
+  const lookup = await resolver.resolveTxt(name);
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const candidates = lookup.records.filter(txt => /(^|;)\s*v=dns402\s*(;|$)/.test(txt));
+
+  if (!lookup.records.length) {
+    errors.push(`No TXT records at ${name}`);
+  } else if (!candidates.length) {
+    errors.push(`No TXT record at ${name} starts a DNS402 record (v=dns402)`);
+  } else if (candidates.length > 1) {
+    warnings.push(`${candidates.length} DNS402 records found; clients prefer a signed one`);
+  }
+
+  const linted = candidates.length ? lintRecord(candidates[0]) : undefined;
+  const record = linted?.record ?? null;
+  errors.push(...(linted?.errors || []));
+  warnings.push(...(linted?.warnings || []));
+
+  if (lookup.records.length && !lookup.authenticated) {
+    warnings.push('Answer was not DNSSEC-validated');
+  }
+
+  if (values.json) {
+    print(true, { name, records: lookup.records, record, errors, warnings, ttl: lookup.ttl });
+  } else {
+    if (record) {
+      print(false, {
+        name,
+        price: `${record.price} ${record.currency}`,
+        wallet: record.wallet,
+        model: record.model,
+        ttl: record.ttl,
+        offers: record.offers?.map(o => `${o.price} ${o.currency}`).join(', '),
+        callback: record.callback,
+        signed: record.signature ? (record.verified ? 'valid' : 'INVALID') : 'no',
+      });
+    }
+    for (const error of errors) console.log(`error: ${error}`);
+    for (const warning of warnings) console.log(`warning: ${warning}`);
+    if (!errors.length) console.log('ok');
+  }
+  return errors.length ? 1 : 0;
+}
+
+/**
+ * Parse a DNS402 TXT record value and check it as clients will read it
+ */
+function lintRecord(txt: string): { record: DNS402Record | null; errors: string[]; warnings: string[] } {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const record = parseRecord(txt);
+  if (!record) {
+    errors.push('Record is missing a required field (p, c, n or w)');
+    return { record, errors, warnings };
+  }
+
+  if (!Number.isFinite(record.price) || record.price <= 0) {
+    errors.push(`Price must be a positive number, got ${record.price}`);
+  }
+  if (record.network !== 'solana') {
+    errors.push(`Network must be solana, got ${record.network}`);
+  }
+  if (!isPublicKey(record.wallet)) {
+    errors.push(`Wallet ${record.wallet} is not a valid Solana address`);
+  }
+  if (!KNOWN_CURRENCIES.includes(record.currency) && !record.mint) {
+    errors.push(`Currency ${record.currency} needs a mint`);
+  }
+  if (record.mint && !isPublicKey(record.mint)) {
+    errors.push(`Mint ${record.mint} is not a valid Solana address`);
+  }
+  if (record.model && !MODELS.includes(record.model)) {
+    errors.push(`Unknown payment model ${record.model}`);
+  }
+  const listed = txt.match(/(?:^|;)\s*o=([^;]*)/)?.[1].split(',').length || 0;
+  if ((record.offers?.length || 1) - 1 < listed) {
+    warnings.push('Some additional offers (o=) could not be parsed');
+  }
+  if (record.signature && !record.verified) {
+    errors.push('Record signature does not match its contents');
+  } else if (!record.signature) {
+    warnings.push('Record is unsigned; clients with requireSignedRecords will refuse it');
+  }
+  if (record.model !== 'per-request' && !record.ttl) {
+    warnings.push('No session TTL (t=); clients assume 3600 seconds');
+  }
+  if (record.callback && !record.callback.startsWith('https://')) {
+    warnings.push('Callback URL is not https');
+  }
+  return { record, errors, warnings };
+}
+
+function parseOffer(value: string): DNS402Offer {
+  const [price, currency, mint] = value.split(':');
+  const amount = Number(price);
+  if (!currency || !Number.isFinite(amount)) {
+    throw new UsageError(`--offer must be price:currency[:mint], got "${value}"`);
+  }
+  return { price: amount, currency: currency.toUpperCase(), mint };
+}
+
+function isPublicKey(value: string): boolean {
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
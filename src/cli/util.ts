@@ -0,0 +1,67 @@
+import { readFile } from 'fs/promises';
+import { homedir } from 'os';
+
+/**
+ * Invalid command line; printed with the usage text, exit code 2
+ */
+export class UsageError extends Error {
+  readonly name = 'UsageError';
+}
+
+/**
+ * Read a Solana CLI keypair file (JSON array of 64 secret key bytes)
+ */
+export async function readKeypair(path: string): Promise<Uint8Array> {
+  const resolved = path.startsWith('~/') ? homedir() + path.slice(1) : path;
+  const bytes: unknown = JSON.parse(await readFile(resolved, 'utf8'));
+  if (!Array.isArray(bytes) || bytes.length !== 64) {
+    throw new UsageError(`${path} is not a keypair file (expected a JSON array of 64 bytes)`);
+  }
+  return Uint8Array.from(bytes as number[]);
+}
+
+/**
+ * Parse a required or optional numeric flag
+ */
+export function parseNumber(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isFinite(number)) {
+    throw new UsageError(`--${name} must be a number, got "${value}"`);
+  }
+  return number;
+}
+
+/**
+ * Parse --rpc: one endpoint, or several separated by commas to pool
+ */
+export function parseEndpoints(value: string | undefined): string | string[] | undefined {
+  const endpoints = value?.split(',').map(url => url.trim()).filter(Boolean);
+  return endpoints && endpoints.length > 1 ? endpoints : endpoints?.[0];
+}
+
+export function required<T>(name: string, value: T | undefined): T {
+  if (value === undefined) {
+    throw new UsageError(`--${name} is required`);
+  }
+  return value;
+}
+
+/**
+ * Print a result as JSON or as aligned `key  value` lines
+ */
+export function print(json: boolean, result: Record<string, unknown>): void {
+  if (json) {
+    console.log(JSON.stringify(result, null, 2));
+    return;
+  }
+
+  const width = Math.max(...Object.keys(result).map(key => key.length));
+  for (const [key, value] of Object.entries(result)) {
+    if (value === undefined) continue;
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    console.log(`${key.padEnd(width)}  ${text}`);
+  }
+}
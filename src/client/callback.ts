@@ -0,0 +1,51 @@
+import type { PaymentNotification } from '../core/types';
+
+const DEFAULT_ATTEMPTS = 3;
+const DEFAULT_TIMEOUT = 5000;
+const RETRY_DELAY = 500;
+
+/**
+ * POST a signed payment notification to a record's callback URL
+ * Network errors, timeouts, 429 and 5xx answers are retried with backoff;
+ * other answers end delivery. Resolves whether the merchant accepted it.
+ */
+export async function deliverNotification(
+  url: string,
+  notification: PaymentNotification,
+  options: { attempts?: number; timeout?: number; fetch?: typeof fetch } = {}
+): Promise<boolean> {
+  const attempts = options.attempts ?? DEFAULT_ATTEMPTS;
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+  const fetchImpl = options.fetch || globalThis.fetch;
+
+  // Only deliver to web URLs
+  const protocol = new URL(url).protocol;
+  if (protocol !== 'https:' && protocol !== 'http:') {
+    return false;
+  }
+
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    if (attempt > 0) {
+      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * 2 ** (attempt - 1)));
+    }
+
+    try {
+      const response = await fetchImpl(url, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(notification),
+        signal: AbortSignal.timeout(timeout),
+      });
+      if (response.ok) {
+        return true;
+      }
+      if (response.status !== 429 && response.status < 500) {
+        return false;
+      }
+    } catch {
+      // Network error or timeout, retry
+    }
+  }
+
+  return false;
+}
@@ -1,56 +1,192 @@
-import { Keypair, Connection } from '@solana/web3.js';
+import { Connection } from '@solana/web3.js';
 import {
+  AdvertisedOffer,
+  BudgetStatus,
+  ClientEvents,
   DNS402ClientConfig,
+  DNS402Offer,
   DNS402Record,
   DNS402Session,
-  PaymentProof,
   DNS402_HEADERS,
+  LedgerEntry,
+  PaymentCommitment,
+  PaymentModel,
+  PaymentProof,
+  Signer,
+  SpendingBudget,
 } from '../core/types';
-import { resolveRecord } from '../core/dns';
-import { createConnection, sendPayment } from '../core/solana';
+import { assertReportsDNSSEC, resolveRecord } from '../core/dns';
+import { getDefaultResolver } from '../core/resolver';
+import { signChallenge, signNotification } from '../core/challenge';
+import { sessionExpiresAt } from '../core/model';
+import { DNS402Emitter } from '../core/events';
+import { createConnection, getBalance, sendPayment, toBaseUnits } from '../core/solana';
+import { KeypairSigner } from '../core/signer';
+import { SubmissionError } from '../core/submit';
+import { OfferMismatchError, RecordSignatureError } from './errors';
+import { SpendingPolicy } from './policy';
+import { deliverNotification } from './callback';
+
+/**
+ * Build payment requirements from 402 response headers
+ */
+function readHttpRecord(headers: Headers): DNS402Record | null {
+  const price = headers.get(DNS402_HEADERS.PRICE);
+  const currency = headers.get(DNS402_HEADERS.CURRENCY);
+  const wallet = headers.get(DNS402_HEADERS.WALLET);
+  if (!price || !currency || !wallet) {
+    return null;
+  }
+
+  const ttl = headers.get(DNS402_HEADERS.SESSION_TTL);
+  return {
+    version: 'dns402',
+    price: parseFloat(price),
+    currency: currency.toUpperCase(),
+    network: (headers.get(DNS402_HEADERS.NETWORK) || 'solana').toLowerCase(),
+    wallet,
+    ttl: ttl ? parseInt(ttl, 10) : undefined,
+    model: (headers.get(DNS402_HEADERS.MODEL) as PaymentModel | null) || 'session',
+  };
+}
+
+/** Times a payment the server does not see as final yet is presented */
+const PENDING_ATTEMPTS = 3;
+
+/**
+ * Whether a response asks to present an unfinalized payment again later
+ */
+function isPending(response: Response): boolean {
+  return (
+    response.status === 402 && response.headers.get(DNS402_HEADERS.REASON) === 'not_finalized'
+  );
+}
+
+/**
+ * Session cache key; sessions bought with a direct pay() have no scope
+ */
+function sessionKey(domain: string, scope?: string): string {
+  return `${domain}|${scope || ''}`;
+}
+
+function toOffer(record: DNS402Record | null): AdvertisedOffer | null {
+  return record
+    ? { price: record.price, currency: record.currency, wallet: record.wallet }
+    : null;
+}
 
 /**
  * DNS402 Client for making paid requests
  */
 export class DNS402Client {
-  private keypair: Keypair;
+  /** Discoveries, payments and cache lookups, as they happen */
+  readonly events: DNS402Emitter<ClientEvents>;
+  private signer: Signer;
   private connection: Connection;
   private config: DNS402ClientConfig;
+  /** Sessions by domain and price scope */
   private sessionCache: Map<string, DNS402Session> = new Map();
+  /** Cache key of the session last used with each domain */
+  private latestSessions: Map<string, string> = new Map();
+  private policy: SpendingPolicy;
 
   constructor(config: DNS402ClientConfig) {
     this.config = config;
-    this.keypair = Keypair.fromSecretKey(config.keypair);
-    this.connection = createConnection(config.rpcEndpoint);
+    this.events = config.events || new DNS402Emitter<ClientEvents>();
+    this.policy = new SpendingPolicy(config.policy);
+    if (config.signer) {
+      this.signer = config.signer;
+    } else if (config.keypair) {
+      this.signer = KeypairSigner.fromSecretKey(config.keypair);
+    } else {
+      throw new Error('DNS402Client requires a keypair or a signer');
+    }
+    this.connection = config.connection || createConnection(config.rpcEndpoint);
+
+    // A record signed by its own key proves nothing to someone who can
+    // rewrite the zone, so signatures are only checked against pinned keys
+    if (config.requireSignedRecords && !config.trustedAuthorities?.length) {
+      throw new Error('requireSignedRecords needs trustedAuthorities to pin the signing keys');
+    }
+    if (config.requireDNSSEC) {
+      if (config.dnsResolver) {
+        throw new Error(
+          'requireDNSSEC cannot be used with dnsResolver, which does not report DNSSEC validation'
+        );
+      }
+      assertReportsDNSSEC(config.resolver || getDefaultResolver());
+    }
   }
 
   /**
    * Get payer wallet address
    */
   get walletAddress(): string {
-    return this.keypair.publicKey.toBase58();
+    return this.signer.publicKey.toBase58();
   }
 
   /**
    * Discover payment requirements for a domain
    */
   async discover(domain: string): Promise<DNS402Record | null> {
+    const started = Date.now();
+    let record: DNS402Record | null;
     if (this.config.dnsResolver) {
       const txt = await this.config.dnsResolver(domain);
       if (!txt) return null;
       const { parseRecord } = await import('../core/dns');
-      return parseRecord(txt);
+      record = parseRecord(txt);
+    } else {
+      record = await resolveRecord(domain, {
+        resolver: this.config.resolver,
+        requireDNSSEC: this.config.requireDNSSEC,
+      });
+    }
+    this.events.emit('discovery', { domain, record, duration: Date.now() - started });
+
+    await this.config.ledger?.append({
+      type: 'discovery',
+      timestamp: Date.now(),
+      domain,
+      record,
+    });
+
+    if (record && this.config.requireSignedRecords) {
+      this.checkRecordSignature(domain, record);
+    }
+    return record;
+  }
+
+  /**
+   * Refuse records without a valid signature from a trusted key
+   */
+  private checkRecordSignature(domain: string, record: DNS402Record): void {
+    if (!record.signature) {
+      throw new RecordSignatureError(domain, 'unsigned');
+    }
+    if (!record.verified) {
+      throw new RecordSignatureError(domain, 'invalid');
+    }
+
+    // The wallet is only trusted to sign its own record if it is pinned
+    const trusted = this.config.trustedAuthorities || [];
+    const signer = record.authority || record.wallet;
+    if (!trusted.includes(signer)) {
+      throw new RecordSignatureError(domain, 'untrusted');
     }
-    return resolveRecord(domain);
   }
 
   /**
    * Pay for access to a domain
+   * Pass the nonce from a 402 response to bind the payment to this wallet.
    */
-  async pay(domain: string): Promise<DNS402Session> {
+  async pay(domain: string, challenge?: string): Promise<DNS402Session> {
     // Check cache first
-    const cached = this.sessionCache.get(domain);
-    if (cached && cached.expiresAt > Date.now()) {
+    const cached = this.getSession(domain);
+    if (cached) {
+      if (challenge && !cached.challenge) {
+        await this.bindChallenge(cached, challenge);
+      }
       return cached;
     }
 
@@ -60,19 +196,130 @@ export class DNS402Client {
       throw new Error(`No DNS402 record found for ${domain}`);
     }
 
-    // Send payment
-    const proof = await sendPayment(this.connection, this.keypair, record);
+    return this.payRecord(domain, record, { challenge });
+  }
+
+  /**
+   * Pay the given payment requirements and open a session
+   */
+  private async payRecord(
+    domain: string,
+    record: DNS402Record,
+    context: {
+      challenge?: string;
+      url?: string;
+      method?: string;
+      commitment?: PaymentCommitment;
+      scope?: string;
+    } = {}
+  ): Promise<DNS402Session> {
+    const { challenge, url, method, commitment, scope } = context;
+
+    // Check the chosen offer against the spending policy
+    const offer = await this.selectOffer(domain, record);
+    const release = await this.policy.authorize({
+      domain,
+      price: offer.price,
+      currency: offer.currency,
+      wallet: record.wallet,
+      record,
+    });
+
+    const entry = {
+      timestamp: Date.now(),
+      domain,
+      url,
+      paymentId: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`,
+      record,
+      price: offer.price,
+      currency: offer.currency,
+      wallet: record.wallet,
+      payer: this.walletAddress,
+    };
+    await this.config.ledger?.append({ ...entry, type: 'payment_attempt' });
+
+    // Send payment in the chosen offer, and wait for it to reach the
+    // commitment the server verifies payments at before retrying
+    const submission =
+      commitment === 'finalized'
+        ? { ...this.config.submission, commitment }
+        : this.config.submission;
+    const started = Date.now();
+    let proof: PaymentProof;
+    try {
+      proof = await sendPayment(this.connection, this.signer, {
+        ...record,
+        price: offer.price,
+        currency: offer.currency,
+        mint: offer.mint,
+      }, submission);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // Only a failed or expired transaction is known never to land. Any
+      // other error may come after it was sent, so it stays reserved.
+      if (!(error instanceof SubmissionError)) {
+        await this.recordOutcome({
+          ...entry,
+          type: 'payment_unknown',
+          timestamp: Date.now(),
+          error: message,
+        });
+        throw error;
+      }
+      release();
+      this.events.emit('payment_failed', {
+        domain,
+        price: offer.price,
+        currency: offer.currency,
+        message,
+      });
+      await this.recordOutcome({
+        ...entry,
+        type: 'payment_failure',
+        timestamp: Date.now(),
+        error: message,
+      });
+      throw error;
+    }
+    proof.currency = offer.currency;
+    this.events.emit('payment_sent', {
+      domain,
+      signature: proof.signature,
+      price: offer.price,
+      currency: offer.currency,
+      duration: Date.now() - started,
+    });
+    await this.recordOutcome({
+      ...entry,
+      type: 'payment_success',
+      timestamp: Date.now(),
+      signature: proof.signature,
+    });
 
     // Create session
+    const model = record.model || 'session';
     const session: DNS402Session = {
       domain,
+      scope,
       proof,
-      expiresAt: Date.now() + (record.ttl || 3600) * 1000,
+      expiresAt: sessionExpiresAt(model, record.ttl || 3600),
     };
+    if (challenge) {
+      await this.bindChallenge(session, challenge);
+    }
 
-    // Cache if enabled
-    if (this.config.sessionCache) {
-      this.sessionCache.set(domain, session);
+    // Let the merchant verify the payment before the request is retried. A
+    // direct pay() is for the record's price, which the root path carries.
+    if (record.callback && this.config.callback?.enabled !== false) {
+      await this.notifyCallback(domain, record.callback, proof, {
+        method: method || 'GET',
+        path: url ? new URL(url).pathname : '/',
+      });
+    }
+
+    // Cache if enabled; per-request payments are only good for one request
+    if (this.config.sessionCache && model !== 'per-request') {
+      this.cacheSession(session);
     }
 
     return session;
@@ -80,71 +327,369 @@ export class DNS402Client {
 
   /**
    * Make a fetch request with automatic payment handling
+   * A 402 response is paid and the request retried once. Pass `fetchImpl`
+   * to send the requests through another fetch implementation.
    */
-  async fetch(url: string, init?: RequestInit): Promise<Response> {
-    const urlObj = new URL(url);
-    const domain = urlObj.hostname;
-
-    // Check for cached session
-    const cached = this.sessionCache.get(domain);
-    if (cached && cached.expiresAt > Date.now()) {
-      return this.fetchWithProof(url, init, cached.proof);
-    }
+  async fetch(
+    url: string,
+    init?: RequestInit,
+    fetchImpl: typeof fetch = globalThis.fetch
+  ): Promise<Response> {
+    const domain = new URL(url).hostname;
 
-    // First attempt
-    const response = await fetch(url, init);
+    // First attempt, with the cached session if there is one
+    const cached = this.lookupSession(domain);
+    const response = cached
+      ? await this.fetchWithSession(fetchImpl, url, init, cached)
+      : await fetchImpl(url, init);
 
     // If not 402, return as-is
     if (response.status !== 402) {
       return response;
     }
 
-    // Get DNS402 record
-    const record = await this.discover(domain);
-    if (!record) {
-      throw new Error(`402 received but no DNS402 record found for ${domain}`);
+    // Pay and retry. A payment the server does not see as final yet is
+    // presented again when it says to retry.
+    const method = init?.method || 'GET';
+    let session = await this.handlePaymentRequired(url, response.headers, cached, method);
+    let retried = await this.fetchWithSession(fetchImpl, url, init, session);
+    for (let attempt = 1; attempt < PENDING_ATTEMPTS && isPending(retried); attempt++) {
+      const wait = parseInt(retried.headers.get('Retry-After') || '', 10) || 1;
+      await new Promise(resolve => setTimeout(resolve, wait * 1000));
+      session = await this.handlePaymentRequired(url, retried.headers, session, method);
+      retried = await this.fetchWithSession(fetchImpl, url, init, session);
     }
+    return retried;
+  }
 
-    // Check auto-pay settings
-    if (this.config.autoPay?.enabled) {
-      const { maxAmount, currency } = this.config.autoPay;
-      if (record.price > maxAmount) {
-        throw new Error(
-          `Price ${record.price} ${record.currency} exceeds auto-pay limit of ${maxAmount} ${currency}`
-        );
+  /**
+   * Settle a 402 response and return the session to retry the request with
+   * `sent` is the session the rejected request carried, if any, and
+   * `method` that of the rejected request. Used by fetch() and the HTTP
+   * client integrations.
+   */
+  async handlePaymentRequired(
+    url: string,
+    responseHeaders: Headers,
+    sent?: DNS402Session,
+    method = 'GET'
+  ): Promise<DNS402Session> {
+    const domain = new URL(url).hostname;
+    const challenge = responseHeaders.get(DNS402_HEADERS.CHALLENGE) || undefined;
+    const scope = responseHeaders.get(DNS402_HEADERS.SCOPE) || undefined;
+    const httpRecord = readHttpRecord(responseHeaders);
+    this.events.emit('payment_required', {
+      url,
+      domain,
+      price: httpRecord?.price,
+      currency: httpRecord?.currency,
+    });
+
+    if (sent) {
+      // A payment the server has not redeemed yet, made by a direct pay()
+      // call, presented under a challenge that expired or not final yet, is
+      // bound to this challenge instead of paying again
+      const reason = responseHeaders.get(DNS402_HEADERS.REASON);
+      if (
+        challenge &&
+        !sent.token &&
+        (!sent.challenge || reason === 'challenge_expired' || reason === 'not_finalized')
+      ) {
+        await this.bindChallenge(sent, challenge);
+        return sent;
       }
-      if (record.currency !== currency) {
-        throw new Error(
-          `Currency mismatch: expected ${currency}, got ${record.currency}`
-        );
+      // Otherwise the server no longer honors it, unless it was refused for
+      // being bought for another route
+      const key = sessionKey(domain, sent.scope);
+      if (sent.scope === scope && this.sessionCache.get(key) === sent) {
+        this.sessionCache.delete(key);
       }
-    } else {
+    }
+
+    // A session bought earlier for this route's scope is used instead
+    const owned = scope ? this.getSession(domain, scope) : undefined;
+    if (owned && owned !== sent) {
+      this.latestSessions.set(domain, sessionKey(domain, scope));
+      return owned;
+    }
+
+    // Compare the DNS402 record with what the 402 response asks for
+    const record = this.reconcile(
+      domain,
+      await this.discover(domain),
+      httpRecord,
+      responseHeaders.get(DNS402_HEADERS.PRICING) === 'route'
+    );
+
+    // Check auto-pay settings; limits are applied when choosing an offer
+    if (!this.config.autoPay?.enabled) {
       throw new Error(
         `Payment required: ${record.price} ${record.currency}. Enable autoPay or call pay() first.`
       );
     }
 
-    // Pay and retry
-    const session = await this.pay(domain);
-    return this.fetchWithProof(url, init, session.proof);
+    const commitment = responseHeaders.get(DNS402_HEADERS.COMMITMENT) as PaymentCommitment | null;
+    return this.payRecord(domain, record, {
+      challenge,
+      url,
+      method,
+      commitment: commitment || undefined,
+      scope,
+    });
+  }
+
+  /**
+   * Decide what to pay from the DNS record and the 402 response headers
+   * according to the configured offer policy
+   * The DNS record says who is paid and in which currencies. The amount is
+   * the one the server quotes for this request, which may be a route price
+   * the record cannot express; auto-pay and spending limits bound it. The
+   * record's price is never paid when the server quoted another amount.
+   */
+  private reconcile(
+    domain: string,
+    dnsRecord: DNS402Record | null,
+    httpRecord: DNS402Record | null,
+    routePriced: boolean
+  ): DNS402Record {
+    const policy = this.config.offerPolicy || 'require-match';
+
+    if (policy === 'trust-http') {
+      if (!httpRecord) {
+        throw new OfferMismatchError(domain, toOffer(dnsRecord), null);
+      }
+      return httpRecord;
+    }
+
+    if (!dnsRecord) {
+      throw new Error(`402 received but no DNS402 record found for ${domain}`);
+    }
+
+    // Servers that send no DNS402 headers have nothing to compare against
+    if (!httpRecord) {
+      return dnsRecord;
+    }
+
+    // The quoted currency must be one the record accepts, and under
+    // require-match the quote must name the record's wallet. trust-dns
+    // pays the record's wallet whatever the quote says.
+    const offers = dnsRecord.offers || [dnsRecord];
+    const accepted = offers.find(o => o.currency === httpRecord.currency);
+    if (!accepted || (policy === 'require-match' && httpRecord.wallet !== dnsRecord.wallet)) {
+      throw new OfferMismatchError(domain, toOffer(dnsRecord), toOffer(httpRecord));
+    }
+
+    // Priced as the record says, all of its offers stand. Only a quote the
+    // server marks as a route price may differ from the record's price.
+    if (accepted.price === httpRecord.price) {
+      return dnsRecord;
+    }
+    if (!routePriced) {
+      throw new OfferMismatchError(domain, toOffer(dnsRecord), toOffer(httpRecord));
+    }
+    const offer = { price: httpRecord.price, currency: accepted.currency, mint: accepted.mint };
+    return { ...dnsRecord, ...offer, offers: [offer] };
+  }
+
+  /**
+   * Write a payment outcome to the ledger
+   * Money has already moved at this point, so a ledger failure must not
+   * lose the session; the attempt entry is already on record.
+   */
+  private async recordOutcome(entry: LedgerEntry): Promise<void> {
+    try {
+      await this.config.ledger?.append(entry);
+    } catch {
+      // Ignored, see above
+    }
+  }
+
+  /**
+   * Choose which of a record's offers to pay
+   * With auto-pay configured, the first preferred currency that is within
+   * its limit and covered by the wallet balance wins. Otherwise the
+   * primary offer is paid.
+   */
+  private async selectOffer(domain: string, record: DNS402Record): Promise<DNS402Offer> {
+    const offers = record.offers || [
+      { price: record.price, currency: record.currency, mint: record.mint },
+    ];
+
+    const autoPay = this.config.autoPay;
+    if (!autoPay) {
+      return offers[0];
+    }
+
+    const preferences = [
+      { currency: autoPay.currency, maxAmount: autoPay.maxAmount },
+      ...(autoPay.alternatives || []),
+    ];
+
+    for (const preference of preferences) {
+      const offer = offers.find(o => o.currency === preference.currency.toUpperCase());
+      if (!offer || offer.price > preference.maxAmount) continue;
+      if (await this.canAfford(offer)) {
+        return offer;
+      }
+    }
+
+    const listed = offers.map(o => `${o.price} ${o.currency}`).join(', ');
+    const limits = preferences.map(p => `${p.maxAmount} ${p.currency}`).join(', ');
+    throw new Error(
+      `No affordable offer for ${domain}: accepts ${listed}; auto-pay limits are ${limits}`
+    );
   }
 
   /**
-   * Make a fetch request with payment proof headers
+   * Check the wallet holds enough of an offer's currency
+   * Balance lookup failures are left for the payment itself to surface.
    */
-  private async fetchWithProof(
+  private async canAfford(offer: DNS402Offer): Promise<boolean> {
+    try {
+      const balance = await getBalance(
+        this.connection,
+        this.walletAddress,
+        offer.currency,
+        offer.mint
+      );
+      return balance.amount >= toBaseUnits(offer.price, balance.decimals);
+    } catch (error) {
+      this.events.emit('rpc_error', {
+        operation: 'getBalance',
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return true;
+    }
+  }
+
+  /**
+   * Send a signed payment notification to a record's callback URL
+   * Delivery is best-effort; the retried request still carries the proof.
+   */
+  private async notifyCallback(
+    domain: string,
+    url: string,
+    proof: PaymentProof,
+    request: { method: string; path: string }
+  ): Promise<void> {
+    try {
+      const notification = await signNotification(this.signer, {
+        domain,
+        method: request.method.toUpperCase(),
+        path: request.path,
+        signature: proof.signature,
+        currency: proof.currency || '',
+        timestamp: Date.now(),
+      });
+      await deliverNotification(url, notification, {
+        attempts: this.config.callback?.attempts,
+        timeout: this.config.callback?.timeout,
+      });
+    } catch (error) {
+      // Reported, otherwise ignored, see above
+      this.events.emit('callback_failed', {
+        domain,
+        url,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Sign a server challenge for a paid session
+   */
+  private async bindChallenge(session: DNS402Session, nonce: string): Promise<void> {
+    session.challenge = {
+      nonce,
+      signature: await signChallenge(this.signer, nonce, session.proof.signature),
+    };
+  }
+
+  /**
+   * Request headers that present a session: its token once the server has
+   * issued one, otherwise the payment proof and challenge signature
+   */
+  sessionHeaders(session: DNS402Session): Record<string, string> {
+    if (session.token) {
+      return { [DNS402_HEADERS.TOKEN]: session.token };
+    }
+
+    const headers: Record<string, string> = {
+      [DNS402_HEADERS.PROOF]: session.proof.signature,
+      [DNS402_HEADERS.PAYER]: session.proof.payer,
+    };
+    if (session.proof.currency) {
+      headers[DNS402_HEADERS.PAYMENT_CURRENCY] = session.proof.currency;
+    }
+    if (session.challenge) {
+      headers[DNS402_HEADERS.NONCE] = session.challenge.nonce;
+      headers[DNS402_HEADERS.SIGNATURE] = session.challenge.signature;
+    }
+    return headers;
+  }
+
+  /**
+   * Keep the session token the server issues once it has verified a payment
+   */
+  updateSession(session: DNS402Session, responseHeaders: Headers): void {
+    const token = responseHeaders.get(DNS402_HEADERS.TOKEN);
+    if (token) {
+      session.token = token;
+    }
+  }
+
+  /**
+   * Make a fetch request with session token or payment proof headers
+   */
+  private async fetchWithSession(
+    fetchImpl: typeof fetch,
     url: string,
     init: RequestInit | undefined,
-    proof: PaymentProof
+    session: DNS402Session
   ): Promise<Response> {
     const headers = new Headers(init?.headers);
-    headers.set(DNS402_HEADERS.PROOF, proof.signature);
-    headers.set(DNS402_HEADERS.PAYER, proof.payer);
+    for (const [name, value] of Object.entries(this.sessionHeaders(session))) {
+      headers.set(name, value);
+    }
 
-    return fetch(url, {
+    const response = await fetchImpl(url, {
       ...init,
       headers,
     });
+    this.updateSession(session, response.headers);
+
+    return response;
+  }
+
+  /**
+   * Amount spent within a window, optionally for one domain and/or currency
+   */
+  getSpent(options?: {
+    domain?: string;
+    currency?: string;
+    window?: SpendingBudget['window'];
+  }): number {
+    return this.policy.getSpent(options);
+  }
+
+  /**
+   * Current state of the configured spending budgets
+   */
+  getBudgets(): BudgetStatus[] {
+    return this.policy.getBudgets();
+  }
+
+  /**
+   * Get the cached session to send a new request to a domain with,
+   * reporting the lookup as a `cache` event
+   * Used by fetch() and the HTTP client integrations.
+   */
+  lookupSession(domain: string): DNS402Session | undefined {
+    const session = this.getSession(domain);
+    if (this.config.sessionCache) {
+      this.events.emit('cache', { cache: 'session', hit: !!session });
+    }
+    return session;
   }
 
   /**
@@ -152,16 +697,32 @@ export class DNS402Client {
    */
   clearCache(): void {
     this.sessionCache.clear();
+    this.latestSessions.clear();
   }
 
   /**
-   * Get cached session for a domain
+   * Get the cached session for a domain's price scope, or the one last used
+   * with the domain
    */
-  getSession(domain: string): DNS402Session | undefined {
-    const session = this.sessionCache.get(domain);
+  getSession(domain: string, scope?: string): DNS402Session | undefined {
+    const key = scope === undefined ? this.latestSessions.get(domain) : sessionKey(domain, scope);
+    const session = key ? this.sessionCache.get(key) : undefined;
     if (session && session.expiresAt > Date.now()) {
       return session;
     }
     return undefined;
   }
+
+  /**
+   * Cache a session under its domain and scope, dropping expired ones
+   */
+  private cacheSession(session: DNS402Session): void {
+    const now = Date.now();
+    for (const [key, cached] of this.sessionCache) {
+      if (cached.expiresAt <= now) this.sessionCache.delete(key);
+    }
+    const key = sessionKey(session.domain, session.scope);
+    this.sessionCache.set(key, session);
+    this.latestSessions.set(session.domain, key);
+  }
 }
@@ -0,0 +1,63 @@
+import type { AdvertisedOffer, PaymentIntent, SpendingBudget } from '../core/types';
+
+/**
+ * The 402 response and the DNS record disagree about what to pay
+ */
+export class OfferMismatchError extends Error {
+  readonly name = 'OfferMismatchError';
+
+  constructor(
+    readonly domain: string,
+    /** Offer from the DNS TXT record (null if no record was found) */
+    readonly dnsOffer: AdvertisedOffer | null,
+    /** Offer from the 402 response headers (null if none were sent) */
+    readonly httpOffer: AdvertisedOffer | null
+  ) {
+    super(
+      `Payment offers for ${domain} disagree: DNS says ${describe(dnsOffer)}, HTTP says ${describe(httpOffer)}`
+    );
+  }
+}
+
+/**
+ * A DNS record was refused because of its signature
+ * - unsigned: the record carries no signature
+ * - invalid: the signature does not match the record contents
+ * - untrusted: the signing key is not one of the trusted authorities
+ */
+export class RecordSignatureError extends Error {
+  readonly name = 'RecordSignatureError';
+
+  constructor(
+    readonly domain: string,
+    readonly reason: 'unsigned' | 'invalid' | 'untrusted'
+  ) {
+    super(`DNS402 record for ${domain} refused: signature is ${reason}`);
+  }
+}
+
+/**
+ * The spending policy refused a payment
+ * - denied: the domain is on the deny list
+ * - not_allowed: the domain is not on the allow list
+ * - over_cap: the price exceeds the per-payment cap for its currency
+ * - over_budget: the payment would exceed a rolling budget
+ * - not_approved: the approval callback refused it
+ */
+export class PolicyViolationError extends Error {
+  readonly name = 'PolicyViolationError';
+
+  constructor(
+    readonly code: 'denied' | 'not_allowed' | 'over_cap' | 'over_budget' | 'not_approved',
+    readonly payment: PaymentIntent,
+    message: string,
+    /** Budget that would be exceeded, for over_budget */
+    readonly budget?: SpendingBudget
+  ) {
+    super(message);
+  }
+}
+
+function describe(offer: AdvertisedOffer | null): string {
+  return offer ? `${offer.price} ${offer.currency} to ${offer.wallet}` : 'nothing';
+}
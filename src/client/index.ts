@@ -1,7 +1,53 @@
 export { DNS402Client } from './client';
+export {
+  OfferMismatchError,
+  RecordSignatureError,
+  PolicyViolationError,
+} from './errors';
+export { SpendingPolicy } from './policy';
+export { wrapFetch, attachAxios, dns402Interceptor, createDispatcher } from './integrations';
 export type {
+  AxiosInstanceLike,
+  AxiosRequestConfigLike,
+  DispatcherLike,
+  DispatchHandlerLike,
+  DispatchInterceptorLike,
+  DispatchLike,
+  DispatchOptionsLike,
+} from './integrations';
+export { MemoryLedger, FileLedger, exportLedger } from './ledger';
+export {
+  createSystemResolver,
+  createDoHResolver,
+  createCachingResolver,
+} from '../core/resolver';
+export { KeypairSigner, RemoteSigner } from '../core/signer';
+export { SubmissionError } from '../core/submit';
+export { RpcPool } from '../core/rpc';
+export { DNS402Emitter } from '../core/events';
+export type {
+  AdvertisedOffer,
+  BudgetStatus,
+  ClientEvents,
   DNS402ClientConfig,
+  DNS402Offer,
   DNS402Record,
+  DNS402Resolver,
   DNS402Session,
+  LedgerEntry,
+  LedgerEntryType,
+  LedgerQuery,
+  OfferPolicy,
+  PaymentLedger,
+  PaymentIntent,
   PaymentProof,
+  RpcEndpoint,
+  RpcEndpointStatus,
+  RpcPoolOptions,
+  Signer,
+  SpendingBudget,
+  SubmissionResult,
+  SubmitOptions,
+  SpendingPolicyConfig,
+  TxtLookup,
 } from '../core/types';
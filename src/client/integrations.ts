@@ -0,0 +1,317 @@
+import type { DNS402Session } from '../core/types';
+import type { DNS402Client } from './client';
+
+/**
+ * Add DNS402 payment handling to a fetch implementation
+ * The returned function has fetch's signature and can replace the global:
+ *
+ *   globalThis.fetch = wrapFetch(client);
+ *
+ * The implementation is captured when wrapping, so replacing the global
+ * does not make the wrapper call itself. Request bodies are buffered so a
+ * paid request can be sent again.
+ */
+export function wrapFetch(
+  client: DNS402Client,
+  fetchImpl: typeof fetch = globalThis.fetch
+): typeof fetch {
+  return async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    if (!(input instanceof Request)) {
+      return client.fetch(input.toString(), init, fetchImpl);
+    }
+
+    const body = input.body ? await input.arrayBuffer() : undefined;
+    return client.fetch(
+      input.url,
+      {
+        method: input.method,
+        headers: input.headers,
+        body,
+        signal: input.signal,
+        redirect: input.redirect,
+        credentials: input.credentials,
+        ...init,
+      },
+      fetchImpl
+    );
+  };
+}
+
+/** Subset of an axios request config used by the interceptors */
+export interface AxiosRequestConfigLike {
+  url?: string;
+  method?: string;
+  baseURL?: string;
+  headers?: Record<string, unknown>;
+  /** Set on the retry of a paid request */
+  dns402Retry?: boolean;
+}
+
+/** Subset of an axios instance used by the interceptors */
+export interface AxiosInstanceLike {
+  interceptors: {
+    request: {
+      use(onFulfilled: (config: AxiosRequestConfigLike) => AxiosRequestConfigLike): number;
+    };
+    response: {
+      use(
+        onFulfilled: (response: AxiosResponseLike) => AxiosResponseLike,
+        onRejected: (error: AxiosErrorLike) => Promise<unknown>
+      ): number;
+    };
+  };
+  request(config: AxiosRequestConfigLike): Promise<unknown>;
+}
+
+interface AxiosResponseLike {
+  status: number;
+  headers: Record<string, unknown>;
+  config: AxiosRequestConfigLike;
+}
+
+interface AxiosErrorLike {
+  response?: AxiosResponseLike;
+  config?: AxiosRequestConfigLike;
+}
+
+/**
+ * Install DNS402 request/response interceptors on an axios instance
+ * Requests carry the cached session for their host; a 402 response is paid
+ * and the request retried once. Returns the interceptor ids for `eject`.
+ */
+export function attachAxios(
+  client: DNS402Client,
+  axios: AxiosInstanceLike
+): { request: number; response: number } {
+  const request = axios.interceptors.request.use(config => {
+    const session = config.dns402Retry ? undefined : client.lookupSession(axiosHost(config));
+    if (session) {
+      setHeaders(config, client.sessionHeaders(session));
+    }
+    return config;
+  });
+
+  const response = axios.interceptors.response.use(
+    result => {
+      const session = client.getSession(axiosHost(result.config));
+      if (session) {
+        client.updateSession(session, toHeaders(result.headers));
+      }
+      return result;
+    },
+    async error => {
+      const { response: result, config } = error;
+      if (!result || result.status !== 402 || !config || config.dns402Retry) {
+        throw error;
+      }
+
+      const url = axiosUrl(config);
+      const sent = client.getSession(new URL(url).hostname);
+      const session = await client.handlePaymentRequired(
+        url,
+        toHeaders(result.headers),
+        sent,
+        config.method
+      );
+
+      config.dns402Retry = true;
+      setHeaders(config, client.sessionHeaders(session));
+      const retried = (await axios.request(config)) as AxiosResponseLike;
+      client.updateSession(session, toHeaders(retried.headers));
+      return retried;
+    }
+  );
+
+  return { request, response };
+}
+
+/** Subset of undici's dispatch options used by the interceptor */
+export interface DispatchOptionsLike {
+  origin?: string | URL;
+  path: string;
+  method: string;
+  body?: unknown;
+  headers?:
+    | Record<string, string | string[] | undefined>
+    | string[]
+    | Iterable<[string, string | string[] | undefined]>
+    | null;
+}
+
+/** Subset of undici's dispatch handler callbacks used by the interceptor */
+export interface DispatchHandlerLike {
+  onConnect?(abort: (err?: Error) => void): void;
+  onError?(err: Error): void;
+  onUpgrade?(statusCode: number, headers: Buffer[] | string[] | null, socket: unknown): void;
+  onResponseStarted?(): void;
+  onHeaders?(statusCode: number, headers: Buffer[], resume: () => void, statusText: string): boolean;
+  onData?(chunk: Buffer): boolean;
+  onComplete?(trailers: string[] | null): void;
+  onBodySent?(chunkSize: number, totalBytesSent: number): void;
+}
+
+/** Subset of an undici dispatcher (Agent, Pool, Client) */
+export interface DispatcherLike {
+  dispatch(options: DispatchOptionsLike, handler: DispatchHandlerLike): boolean;
+}
+
+/** A dispatcher's dispatch function */
+export type DispatchLike = DispatcherLike['dispatch'];
+
+/**
+ * undici compose interceptor, typed by the dispatcher's own dispatch
+ * function so it composes with any undici version
+ */
+export type DispatchInterceptorLike<D extends DispatchLike = DispatchLike> = (dispatch: D) => D;
+
+/**
+ * undici interceptor adding DNS402 payment handling to a dispatcher
+ *
+ *   import { Agent, setGlobalDispatcher } from 'undici';
+ *   setGlobalDispatcher(new Agent().compose(dns402Interceptor(client)));
+ *
+ * A 402 response is consumed, paid and the request dispatched once more.
+ * Requests with streaming bodies cannot be replayed; their 402 responses
+ * are passed through unpaid.
+ */
+export function dns402Interceptor<D extends DispatchLike = DispatchLike>(
+  client: DNS402Client
+): DispatchInterceptorLike<D> {
+  const interceptor: DispatchInterceptorLike = dispatch => (options, handler) => {
+    if (!options.origin) {
+      return dispatch(options, handler);
+    }
+
+    const url = new URL(options.path, options.origin).toString();
+    const sent = client.lookupSession(new URL(url).hostname);
+    const replayable =
+      options.body == null || typeof options.body === 'string' || options.body instanceof Uint8Array;
+
+    const send = (session: DNS402Session | undefined, retry: boolean): boolean => {
+      const headers = session
+        ? { ...normalizeHeaders(options.headers), ...lowercase(client.sessionHeaders(session)) }
+        : options.headers;
+
+      let paymentRequired: Headers | undefined;
+      return dispatch({ ...options, headers }, {
+        onConnect: abort => handler.onConnect?.(abort),
+        onError: error => handler.onError?.(error),
+        onUpgrade: (statusCode, rawHeaders, socket) =>
+          handler.onUpgrade?.(statusCode, rawHeaders, socket),
+        onResponseStarted: () => handler.onResponseStarted?.(),
+        onBodySent: (chunkSize, totalBytesSent) =>
+          handler.onBodySent?.(chunkSize, totalBytesSent),
+        onHeaders(statusCode, rawHeaders, resume, statusText) {
+          const responseHeaders = parseRawHeaders(rawHeaders);
+          if (statusCode === 402 && !retry && replayable) {
+            // Swallow this response and settle it once it has been read
+            paymentRequired = responseHeaders;
+            return true;
+          }
+          if (session) {
+            client.updateSession(session, responseHeaders);
+          }
+          return handler.onHeaders?.(statusCode, rawHeaders, resume, statusText) ?? true;
+        },
+        onData(chunk) {
+          return paymentRequired ? true : handler.onData?.(chunk) ?? true;
+        },
+        onComplete(trailers) {
+          if (!paymentRequired) {
+            return handler.onComplete?.(trailers);
+          }
+          client.handlePaymentRequired(url, paymentRequired, session, options.method).then(
+            paid => send(paid, true),
+            error => handler.onError?.(error)
+          );
+        },
+      });
+    };
+
+    return send(sent, false);
+  };
+  // undici's dispatch takes wider options than the subset used here
+  return interceptor as unknown as DispatchInterceptorLike<D>;
+}
+
+/**
+ * Wrap an undici dispatcher (Agent, Pool, Client) with DNS402 payment handling
+ */
+export function createDispatcher<D extends DispatcherLike, C>(
+  client: DNS402Client,
+  dispatcher: D & { compose(interceptor: DispatchInterceptorLike<D['dispatch']>): C }
+): C {
+  return dispatcher.compose(dns402Interceptor(client));
+}
+
+function axiosUrl(config: AxiosRequestConfigLike): string {
+  return new URL(config.url || '', config.baseURL).toString();
+}
+
+function axiosHost(config: AxiosRequestConfigLike): string {
+  try {
+    return new URL(axiosUrl(config)).hostname;
+  } catch {
+    return '';
+  }
+}
+
+function setHeaders(config: AxiosRequestConfigLike, headers: Record<string, string>): void {
+  config.headers = config.headers || {};
+  for (const [name, value] of Object.entries(headers)) {
+    config.headers[name] = value;
+  }
+}
+
+function toHeaders(raw: Record<string, unknown>): Headers {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(raw || {})) {
+    if (value != null) headers.set(name, String(value));
+  }
+  return headers;
+}
+
+function parseRawHeaders(raw: Buffer[]): Headers {
+  const headers = new Headers();
+  for (let i = 0; i + 1 < raw.length; i += 2) {
+    headers.append(raw[i].toString('latin1'), raw[i + 1].toString('latin1'));
+  }
+  return headers;
+}
+
+function lowercase(headers: Record<string, string>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    result[name.toLowerCase()] = value;
+  }
+  return result;
+}
+
+/**
+ * Flatten undici's accepted header formats into a lowercase header object
+ */
+function normalizeHeaders(
+  headers: DispatchOptionsLike['headers']
+): Record<string, string | string[]> {
+  const result: Record<string, string | string[]> = {};
+  if (!headers) {
+    return result;
+  }
+
+  if (Array.isArray(headers)) {
+    // Flat [name, value, name, value, ...] list
+    for (let i = 0; i + 1 < headers.length; i += 2) {
+      result[headers[i].toLowerCase()] = headers[i + 1];
+    }
+    return result;
+  }
+
+  const entries =
+    Symbol.iterator in headers
+      ? (headers as Iterable<[string, string | string[] | undefined]>)
+      : Object.entries(headers);
+  for (const [name, value] of entries) {
+    if (value !== undefined) result[name.toLowerCase()] = value;
+  }
+  return result;
+}
@@ -0,0 +1,103 @@
+import type { LedgerEntry, LedgerQuery, PaymentLedger } from '../core/types';
+
+const CSV_COLUMNS: Array<keyof LedgerEntry> = [
+  'timestamp',
+  'type',
+  'domain',
+  'url',
+  'paymentId',
+  'price',
+  'currency',
+  'wallet',
+  'payer',
+  'signature',
+  'error',
+];
+
+/**
+ * In-memory payment ledger
+ */
+export class MemoryLedger implements PaymentLedger {
+  private entries: LedgerEntry[] = [];
+
+  async append(entry: LedgerEntry): Promise<void> {
+    this.entries.push(entry);
+  }
+
+  async query(filter: LedgerQuery = {}): Promise<LedgerEntry[]> {
+    return this.entries.filter(entry => matches(entry, filter));
+  }
+}
+
+/**
+ * Append-only JSONL payment ledger
+ * Each entry is written as one JSON line and never rewritten.
+ */
+export class FileLedger implements PaymentLedger {
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private path: string) {}
+
+  append(entry: LedgerEntry): Promise<void> {
+    // Serialize writes so lines never interleave
+    const write = this.queue.then(async () => {
+      const { promises: fs } = await import('fs');
+      await fs.appendFile(this.path, `${JSON.stringify(entry)}\n`);
+    });
+    this.queue = write.catch(() => undefined);
+    return write;
+  }
+
+  async query(filter: LedgerQuery = {}): Promise<LedgerEntry[]> {
+    await this.queue;
+    const { promises: fs } = await import('fs');
+
+    let contents = '';
+    try {
+      contents = await fs.readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    return contents
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line) as LedgerEntry)
+      .filter(entry => matches(entry, filter));
+  }
+}
+
+/**
+ * Export ledger entries as CSV or JSON
+ * CSV has one row per entry with ISO timestamps; JSON keeps full entries,
+ * including the record paid against.
+ */
+export function exportLedger(entries: LedgerEntry[], format: 'csv' | 'json'): string {
+  if (format === 'json') {
+    return JSON.stringify(entries, null, 2);
+  }
+
+  const rows = entries.map(entry =>
+    CSV_COLUMNS.map(column => {
+      const value = entry[column];
+      if (value === undefined || value === null) return '';
+      if (column === 'timestamp') return new Date(value as number).toISOString();
+      return escapeCsv(String(value));
+    }).join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
+
+function matches(entry: LedgerEntry, filter: LedgerQuery): boolean {
+  if (filter.domain && entry.domain !== filter.domain) return false;
+  if (filter.type && entry.type !== filter.type) return false;
+  if (filter.from !== undefined && entry.timestamp < filter.from) return false;
+  if (filter.to !== undefined && entry.timestamp > filter.to) return false;
+  return true;
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
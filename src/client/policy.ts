@@ -0,0 +1,145 @@
+import type {
+  BudgetStatus,
+  PaymentIntent,
+  SpendingBudget,
+  SpendingPolicyConfig,
+} from '../core/types';
+import { PolicyViolationError } from './errors';
+
+interface SpendEntry {
+  domain: string;
+  currency: string;
+  amount: number;
+  timestamp: number;
+}
+
+/**
+ * Spending policy checked before every payment
+ * Payments count against budgets as soon as they are authorized, so
+ * concurrent payments cannot overspend; failed payments are released.
+ */
+export class SpendingPolicy {
+  private entries: SpendEntry[] = [];
+
+  constructor(private config: SpendingPolicyConfig = {}) {}
+
+  /**
+   * Check a payment against the policy and reserve it
+   * Returns a function that releases the reservation if the payment fails.
+   */
+  async authorize(payment: PaymentIntent): Promise<() => void> {
+    const { domain, price, currency } = payment;
+
+    if (this.config.deny?.some(pattern => matchDomain(pattern, domain))) {
+      throw new PolicyViolationError('denied', payment, `Payments to ${domain} are denied`);
+    }
+    if (this.config.allow && !this.config.allow.some(pattern => matchDomain(pattern, domain))) {
+      throw new PolicyViolationError('not_allowed', payment, `${domain} is not on the allow list`);
+    }
+
+    const cap = this.config.maxPerPayment?.[currency];
+    if (cap !== undefined && price > cap) {
+      throw new PolicyViolationError(
+        'over_cap',
+        payment,
+        `Price ${price} ${currency} exceeds the per-payment cap of ${cap} ${currency}`
+      );
+    }
+
+    for (const status of this.getBudgets()) {
+      const { budget } = status;
+      if (!appliesTo(budget, domain, currency)) continue;
+      if (round(status.spent + price) > budget.amount) {
+        throw new PolicyViolationError(
+          'over_budget',
+          payment,
+          `Paying ${price} ${currency} to ${domain} would exceed the ${describeBudget(budget)}`,
+          budget
+        );
+      }
+    }
+
+    // Reserve before awaiting approval so concurrent payments see it
+    const entry: SpendEntry = { domain, currency, amount: price, timestamp: Date.now() };
+    this.entries.push(entry);
+    const release = () => {
+      this.entries = this.entries.filter(e => e !== entry);
+    };
+
+    if (this.config.approve && !(await this.config.approve(payment))) {
+      release();
+      throw new PolicyViolationError('not_approved', payment, `Payment to ${domain} was not approved`);
+    }
+
+    return release;
+  }
+
+  /**
+   * Total spent within a window, optionally for one domain and/or currency
+   */
+  getSpent(
+    options: { domain?: string; currency?: string; window?: SpendingBudget['window'] } = {}
+  ): number {
+    const since = options.window !== undefined ? Date.now() - windowMs(options.window) : 0;
+    let total = 0;
+    for (const entry of this.entries) {
+      if (entry.timestamp < since) continue;
+      if (options.domain && !matchDomain(options.domain, entry.domain)) continue;
+      if (options.currency && entry.currency !== options.currency) continue;
+      total += entry.amount;
+    }
+    return round(total);
+  }
+
+  /**
+   * Current state of every configured budget
+   */
+  getBudgets(): BudgetStatus[] {
+    this.prune();
+    return (this.config.budgets || []).map(budget => {
+      const spent = this.getSpent({
+        domain: budget.domain,
+        currency: budget.currency,
+        window: budget.window,
+      });
+      return { budget, spent, remaining: Math.max(0, round(budget.amount - spent)) };
+    });
+  }
+
+  /**
+   * Drop entries older than the longest budget window
+   */
+  private prune(): void {
+    const windows = (this.config.budgets || []).map(budget => windowMs(budget.window));
+    const since = Date.now() - Math.max(windowMs('day'), ...windows);
+    this.entries = this.entries.filter(entry => entry.timestamp >= since);
+  }
+}
+
+function appliesTo(budget: SpendingBudget, domain: string, currency: string): boolean {
+  return budget.currency === currency && (!budget.domain || matchDomain(budget.domain, domain));
+}
+
+function matchDomain(pattern: string, domain: string): boolean {
+  if (pattern.startsWith('*.')) {
+    return domain.endsWith(pattern.slice(1));
+  }
+  return pattern === domain;
+}
+
+function windowMs(window: SpendingBudget['window']): number {
+  if (window === 'hour') return 3600 * 1000;
+  if (window === 'day') return 86400 * 1000;
+  return window * 1000;
+}
+
+function describeBudget(budget: SpendingBudget): string {
+  const window = typeof budget.window === 'number' ? `${budget.window}s` : budget.window;
+  const scope = budget.domain ? `${budget.domain} ` : '';
+  return `${scope}${window} budget of ${budget.amount} ${budget.currency}`;
+}
+
+/** Avoid floating point drift when summing decimal amounts */
+function round(amount: number): number {
+  return Math.round(amount * 1e9) / 1e9;
+}
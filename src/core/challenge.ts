@@ -0,0 +1,81 @@
+import { ed25519 } from '@noble/curves/ed25519';
+import { PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import type { PaymentNotification, Signer } from './types';
+
+/**
+ * Build the message a payer signs to bind a payment to a server challenge
+ * Format: dns402:{nonce}:{transaction signature}
+ */
+export function createChallengeMessage(nonce: string, signature: string): Uint8Array {
+  return new TextEncoder().encode(`dns402:${nonce}:${signature}`);
+}
+
+/**
+ * Sign a server challenge with the payer's signer
+ * Returns the base58-encoded ed25519 signature
+ */
+export async function signChallenge(
+  signer: Signer,
+  nonce: string,
+  signature: string
+): Promise<string> {
+  const message = createChallengeMessage(nonce, signature);
+  return bs58.encode(await signer.signMessage(message));
+}
+
+/**
+ * Verify a payer's signature over a server challenge
+ */
+export function verifyChallenge(
+  payer: string,
+  nonce: string,
+  signature: string,
+  challengeSignature: string
+): boolean {
+  try {
+    const message = createChallengeMessage(nonce, signature);
+    const publicKey = new PublicKey(payer).toBytes();
+    return ed25519.verify(bs58.decode(challengeSignature), message, publicKey);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Build the message a payer signs to authenticate a payment notification
+ * Format: dns402-callback:{domain}:{method}:{path}:{transaction signature}:{currency}:{timestamp}
+ */
+export function createNotificationMessage(
+  notification: Omit<PaymentNotification, 'auth'>
+): Uint8Array {
+  const { domain, method, path, signature, currency, timestamp } = notification;
+  return new TextEncoder().encode(
+    `dns402-callback:${domain}:${method.toUpperCase()}:${path}:${signature}:${currency}:${timestamp}`
+  );
+}
+
+/**
+ * Sign a payment notification with the payer's signer
+ */
+export async function signNotification(
+  signer: Signer,
+  notification: Omit<PaymentNotification, 'auth' | 'payer'>
+): Promise<PaymentNotification> {
+  const payer = signer.publicKey.toBase58();
+  const message = createNotificationMessage({ ...notification, payer });
+  return { ...notification, payer, auth: bs58.encode(await signer.signMessage(message)) };
+}
+
+/**
+ * Verify a payment notification was signed by its payer
+ */
+export function verifyNotification(notification: PaymentNotification): boolean {
+  try {
+    const message = createNotificationMessage(notification);
+    const publicKey = new PublicKey(notification.payer).toBytes();
+    return ed25519.verify(bs58.decode(notification.auth), message, publicKey);
+  } catch {
+    return false;
+  }
+}
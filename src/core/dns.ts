@@ -1,18 +1,28 @@
-import { promises as dns } from 'dns';
-import type { DNS402Record } from './types';
+import { ed25519 } from '@noble/curves/ed25519';
+import { Keypair, PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import type { DNS402Offer, DNS402Record, DNS402Resolver, PaymentModel } from './types';
+import { getDefaultResolver } from './resolver';
+
+/** Maximum length of one TXT character-string */
+const TXT_CHUNK_SIZE = 255;
 
 /**
  * Parse DNS402 TXT record value into structured object
  * Format: v=dns402;p=0.001;c=USDC;n=solana;w=ABC...;t=3600;m=per-request
+ * Additional offers: o=0.0001:SOL,100:DNS402 (price:currency[:mint])
+ * Signed records: sig=<base58 ed25519 signature>, k=<authority public key>
  */
 export function parseRecord(txt: string): DNS402Record | null {
   const parts = txt.split(';').map(p => p.trim()).filter(Boolean);
   const data: Record<string, string> = {};
 
   for (const part of parts) {
-    const [key, value] = part.split('=');
-    if (key && value) {
-      data[key.trim()] = value.trim();
+    const separator = part.indexOf('=');
+    const key = part.slice(0, separator).trim();
+    const value = part.slice(separator + 1).trim();
+    if (separator > 0 && value) {
+      data[key] = value;
     }
   }
 
@@ -21,16 +31,74 @@ export function parseRecord(txt: string): DNS402Record | null {
     return null;
   }
 
+  const price = parseFloat(data.p);
+  const currency = data.c.toUpperCase();
+  const offers: DNS402Offer[] = [{ price, currency, mint: data.mint }];
+  if (data.o) {
+    for (const entry of data.o.split(',')) {
+      const offer = parseOffer(entry);
+      if (offer) {
+        offers.push(offer);
+      }
+    }
+  }
+
   return {
     version: data.v,
-    price: parseFloat(data.p),
-    currency: data.c.toUpperCase(),
+    price,
+    currency,
     network: data.n.toLowerCase(),
     wallet: data.w,
     ttl: data.t ? parseInt(data.t, 10) : undefined,
-    model: (data.m as DNS402Record['model']) || 'per-request',
+    // Records without a model behave like the middleware default
+    model: (data.m as PaymentModel) || 'session',
     callback: data.cb,
     mint: data.mint,
+    offers,
+    signature: data.sig,
+    authority: data.k,
+    verified: data.sig ? verifyRecordSignature(data) : false,
+  };
+}
+
+/**
+ * Canonical form of a record's fields for signing
+ * Every field except `sig`, sorted by key, as key=value joined with `;`
+ */
+function canonicalRecord(data: Record<string, string>): Uint8Array {
+  const canonical = Object.keys(data)
+    .filter(key => key !== 'sig')
+    .sort()
+    .map(key => `${key}=${data[key]}`)
+    .join(';');
+  return new TextEncoder().encode(canonical);
+}
+
+/**
+ * Check a record's signature against its authority key, or its wallet
+ */
+function verifyRecordSignature(data: Record<string, string>): boolean {
+  try {
+    const signer = new PublicKey(data.k || data.w).toBytes();
+    return ed25519.verify(bs58.decode(data.sig), canonicalRecord(data), signer);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse one `price:currency[:mint]` offer
+ */
+function parseOffer(entry: string): DNS402Offer | null {
+  const [price, currency, mint] = entry.trim().split(':');
+  const amount = parseFloat(price);
+  if (!currency || !Number.isFinite(amount)) {
+    return null;
+  }
+  return {
+    price: amount,
+    currency: currency.toUpperCase(),
+    mint: mint || undefined,
   };
 }
 
@@ -42,9 +110,12 @@ export function generateRecord(config: {
   currency: string;
   wallet: string;
   ttl?: number;
-  model?: 'per-request' | 'session' | 'subscription';
+  model?: PaymentModel;
   callback?: string;
   mint?: string;
+  offers?: DNS402Offer[];
+  /** Sign the record with this keypair (the wallet or a declared authority) */
+  signer?: Keypair;
 }): string {
   const parts = [
     'v=dns402',
@@ -58,6 +129,26 @@ export function generateRecord(config: {
   if (config.model) parts.push(`m=${config.model}`);
   if (config.callback) parts.push(`cb=${config.callback}`);
   if (config.mint) parts.push(`mint=${config.mint}`);
+  if (config.offers?.length) {
+    const offers = config.offers.map(offer =>
+      [offer.price, offer.currency, offer.mint].filter(Boolean).join(':')
+    );
+    parts.push(`o=${offers.join(',')}`);
+  }
+
+  if (config.signer) {
+    // A key other than the wallet signs as a declared authority
+    const signerKey = config.signer.publicKey.toBase58();
+    if (signerKey !== config.wallet) parts.push(`k=${signerKey}`);
+
+    const data: Record<string, string> = {};
+    for (const part of parts) {
+      const separator = part.indexOf('=');
+      data[part.slice(0, separator)] = part.slice(separator + 1);
+    }
+    const signature = ed25519.sign(canonicalRecord(data), config.signer.secretKey.slice(0, 32));
+    parts.push(`sig=${bs58.encode(signature)}`);
+  }
 
   return parts.join(';');
 }
@@ -66,7 +157,15 @@ export function generateRecord(config: {
  * Resolve DNS402 TXT record for a domain
  * Looks up _402.{domain} TXT record
  */
-export async function resolveRecord(domain: string): Promise<DNS402Record | null> {
+export async function resolveRecord(
+  domain: string,
+  options: {
+    /** TXT resolver backend (default: shared cached resolver) */
+    resolver?: DNS402Resolver;
+    /** Ignore answers that were not DNSSEC-validated; throws if the resolver cannot tell */
+    requireDNSSEC?: boolean;
+  } = {}
+): Promise<DNS402Record | null> {
   // Remove protocol and path
   const cleanDomain = domain
     .replace(/^https?:\/\//, '')
@@ -74,26 +173,46 @@ export async function resolveRecord(domain: string): Promise<DNS402Record | null
     .replace(/:\d+$/, '');
 
   const recordDomain = `_402.${cleanDomain}`;
+  const resolver = options.resolver || getDefaultResolver();
+  if (options.requireDNSSEC) {
+    assertReportsDNSSEC(resolver);
+  }
 
   try {
-    const records = await dns.resolveTxt(recordDomain);
-    
-    // TXT records can be chunked, join them
-    for (const record of records) {
-      const txt = Array.isArray(record) ? record.join('') : record;
+    const lookup = await resolver.resolveTxt(recordDomain);
+    if (options.requireDNSSEC && !lookup.authenticated) {
+      return null;
+    }
+
+    // Prefer a record with a valid signature over unsigned ones
+    let fallback: DNS402Record | null = null;
+    for (const txt of lookup.records) {
       const parsed = parseRecord(txt);
-      if (parsed) {
+      if (parsed?.verified) {
         return parsed;
       }
+      fallback = fallback || parsed;
     }
 
-    return null;
+    return fallback;
   } catch (error) {
     // Record not found or DNS error
     return null;
   }
 }
 
+/**
+ * Throw unless the resolver reports DNSSEC validation; without it,
+ * requireDNSSEC would silently refuse every record
+ */
+export function assertReportsDNSSEC(resolver: DNS402Resolver): void {
+  if (!resolver.reportsDNSSEC) {
+    throw new Error(
+      'requireDNSSEC needs a resolver that reports DNSSEC validation, such as createDoHResolver'
+    );
+  }
+}
+
 /**
  * Generate full DNS record string for documentation
  */
@@ -102,8 +221,17 @@ export function generateDNSRecordString(domain: string, config: {
   currency: string;
   wallet: string;
   ttl?: number;
-  model?: 'per-request' | 'session' | 'subscription';
+  model?: PaymentModel;
+  callback?: string;
+  offers?: DNS402Offer[];
+  signer?: Keypair;
 }): string {
   const value = generateRecord(config);
-  return `_402.${domain} TXT "${value}"`;
+
+  // Values longer than one character-string are split into several
+  const chunks: string[] = [];
+  for (let i = 0; i < value.length; i += TXT_CHUNK_SIZE) {
+    chunks.push(`"${value.slice(i, i + TXT_CHUNK_SIZE)}"`);
+  }
+  return `_402.${domain} TXT ${chunks.join(' ')}`;
 }
@@ -0,0 +1,52 @@
+/**
+ * Minimal typed event emitter, usable in Node, browsers and edge runtimes
+ * Listeners run synchronously in the order they were added. A listener
+ * that throws is skipped, so observers cannot break payment handling.
+ */
+export class DNS402Emitter<Events extends object> {
+  private listeners: Map<keyof Events, Set<(event: never) => void>> = new Map();
+
+  /**
+   * Add a listener; returns a function that removes it
+   */
+  on<K extends keyof Events>(name: K, listener: (event: Events[K]) => void): () => void {
+    let listeners = this.listeners.get(name);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(name, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(name, listener);
+  }
+
+  /**
+   * Add a listener that is removed after its first event
+   */
+  once<K extends keyof Events>(name: K, listener: (event: Events[K]) => void): () => void {
+    const off = this.on(name, event => {
+      off();
+      listener(event);
+    });
+    return off;
+  }
+
+  off<K extends keyof Events>(name: K, listener: (event: Events[K]) => void): void {
+    this.listeners.get(name)?.delete(listener);
+  }
+
+  emit<K extends keyof Events>(name: K, event: Events[K]): void {
+    const listeners = this.listeners.get(name);
+    if (!listeners) return;
+    for (const listener of [...listeners]) {
+      try {
+        (listener as (event: Events[K]) => void)(event);
+      } catch {
+        // Ignored, see above
+      }
+    }
+  }
+
+  listenerCount<K extends keyof Events>(name: K): number {
+    return this.listeners.get(name)?.size || 0;
+  }
+}
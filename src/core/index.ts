@@ -1,3 +1,8 @@
 export * from './types';
 export * from './dns';
 export * from './solana';
+export * from './challenge';
+export * from './model';
+export * from './resolver';
+export * from './signer';
+export * from './submit';
@@ -0,0 +1,22 @@
+import type { PaymentModel } from './types';
+
+/**
+ * Compute when access bought now expires under a payment model
+ * For `subscription`, ttl is the billing period, counted from the payment
+ * so every payer gets a full period for its price. `per-request` access
+ * expires immediately, and a `prepaid` account token lasts ttl like a session.
+ */
+export function sessionExpiresAt(
+  model: PaymentModel,
+  ttl: number,
+  now: number = Date.now()
+): number {
+  switch (model) {
+    case 'per-request':
+      return now;
+    case 'subscription':
+    case 'session':
+    default:
+      return now + ttl * 1000;
+  }
+}
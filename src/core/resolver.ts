@@ -0,0 +1,285 @@
+import type { DNS402Resolver, TxtLookup } from './types';
+
+const DEFAULT_DOH_ENDPOINT = 'https://cloudflare-dns.com/dns-query';
+
+/** TTL used when the backend does not report one */
+const DEFAULT_TTL = 300;
+
+/** TTL for empty answers (NXDOMAIN / no TXT records) */
+const NEGATIVE_TTL = 60;
+
+const TYPE_TXT = 16;
+
+/**
+ * System resolver backend using Node's `dns` module
+ * Node does not expose TXT record TTLs, so answers carry a fixed TTL. Nor
+ * does it expose the AD bit, so it cannot be used with requireDNSSEC.
+ */
+export function createSystemResolver(options: { ttl?: number } = {}): DNS402Resolver {
+  const ttl = options.ttl ?? DEFAULT_TTL;
+
+  return {
+    reportsDNSSEC: false,
+    async resolveTxt(name: string): Promise<TxtLookup> {
+      const { promises: dns } = await import('dns');
+      try {
+        const records = await dns.resolveTxt(name);
+        // TXT records can be chunked, join them
+        return { records: records.map(chunks => chunks.join('')), ttl };
+      } catch (error) {
+        const code = (error as NodeJS.ErrnoException).code;
+        if (code === 'ENOTFOUND' || code === 'ENODATA') {
+          return { records: [], ttl: NEGATIVE_TTL };
+        }
+        throw error;
+      }
+    },
+  };
+}
+
+/**
+ * DNS-over-HTTPS resolver backend (RFC 8484)
+ * `json` uses the application/dns-json API offered by Cloudflare and Google;
+ * `wire` POSTs a binary DNS message to any RFC 8484 endpoint.
+ */
+export function createDoHResolver(
+  options: {
+    endpoint?: string;
+    format?: 'json' | 'wire';
+    fetch?: typeof fetch;
+  } = {}
+): DNS402Resolver {
+  const endpoint = options.endpoint || DEFAULT_DOH_ENDPOINT;
+  const format = options.format || 'json';
+  const fetchImpl = options.fetch || fetch;
+
+  return {
+    reportsDNSSEC: true,
+    async resolveTxt(name: string): Promise<TxtLookup> {
+      if (format === 'wire') {
+        const response = await fetchImpl(endpoint, {
+          method: 'POST',
+          headers: {
+            accept: 'application/dns-message',
+            'content-type': 'application/dns-message',
+          },
+          body: encodeQuery(name),
+        });
+        if (!response.ok) {
+          throw new Error(`DoH query failed with HTTP ${response.status}`);
+        }
+        return decodeResponse(new Uint8Array(await response.arrayBuffer()));
+      }
+
+      const url = new URL(endpoint);
+      url.searchParams.set('name', name);
+      url.searchParams.set('type', 'TXT');
+      const response = await fetchImpl(url.toString(), {
+        headers: { accept: 'application/dns-json' },
+      });
+      if (!response.ok) {
+        throw new Error(`DoH query failed with HTTP ${response.status}`);
+      }
+      return decodeJson((await response.json()) as DoHJsonResponse);
+    },
+  };
+}
+
+/**
+ * Wrap a resolver with a cache that honors answer TTLs
+ * Concurrent lookups of the same name share one query.
+ */
+export function createCachingResolver(
+  resolver: DNS402Resolver,
+  options: { minTTL?: number; maxTTL?: number } = {}
+): DNS402Resolver {
+  const minTTL = options.minTTL ?? 0;
+  const maxTTL = options.maxTTL ?? 86400;
+  const cache = new Map<string, { lookup: TxtLookup; expiresAt: number }>();
+  const pending = new Map<string, Promise<TxtLookup>>();
+
+  return {
+    reportsDNSSEC: resolver.reportsDNSSEC,
+    async resolveTxt(name: string): Promise<TxtLookup> {
+      const key = name.toLowerCase();
+      const cached = cache.get(key);
+      if (cached && cached.expiresAt > Date.now()) {
+        return cached.lookup;
+      }
+
+      const inflight = pending.get(key);
+      if (inflight) {
+        return inflight;
+      }
+
+      const lookup = resolver
+        .resolveTxt(name)
+        .then(result => {
+          const ttl = Math.min(Math.max(result.ttl, minTTL), maxTTL);
+          cache.set(key, { lookup: result, expiresAt: Date.now() + ttl * 1000 });
+          return result;
+        })
+        .finally(() => pending.delete(key));
+      pending.set(key, lookup);
+      return lookup;
+    },
+  };
+}
+
+let defaultResolver: DNS402Resolver | undefined;
+
+/**
+ * Shared default resolver: cached system DNS in Node, cached DoH elsewhere
+ */
+export function getDefaultResolver(): DNS402Resolver {
+  if (!defaultResolver) {
+    const isNode = typeof process !== 'undefined' && !!process.versions?.node;
+    defaultResolver = createCachingResolver(
+      isNode ? createSystemResolver() : createDoHResolver()
+    );
+  }
+  return defaultResolver;
+}
+
+interface DoHJsonResponse {
+  Status: number;
+  AD?: boolean;
+  Answer?: Array<{ type: number; TTL: number; data: string }>;
+}
+
+/**
+ * Decode an application/dns-json response
+ */
+function decodeJson(body: DoHJsonResponse): TxtLookup {
+  // NXDOMAIN
+  if (body.Status === 3) {
+    return { records: [], ttl: NEGATIVE_TTL, authenticated: !!body.AD };
+  }
+  if (body.Status !== 0) {
+    throw new Error(`DoH query failed with DNS status ${body.Status}`);
+  }
+
+  const answers = (body.Answer || []).filter(answer => answer.type === TYPE_TXT);
+  return {
+    records: answers.map(answer => unquoteTxt(answer.data)),
+    ttl: answers.length ? Math.min(...answers.map(answer => answer.TTL)) : NEGATIVE_TTL,
+    authenticated: !!body.AD,
+  };
+}
+
+/**
+ * Join the quoted character-strings of a presentation-format TXT value
+ */
+function unquoteTxt(data: string): string {
+  const chunks = data.match(/"(?:[^"\\]|\\.)*"/g);
+  if (!chunks) {
+    return data;
+  }
+  return chunks
+    .map(chunk =>
+      chunk
+        .slice(1, -1)
+        .replace(/\\(\d{3})/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+        .replace(/\\(.)/g, '$1')
+    )
+    .join('');
+}
+
+/**
+ * Encode a TXT query as a DNS wire-format message
+ * Sets RD and AD so validating resolvers report DNSSEC status (RFC 6840).
+ */
+function encodeQuery(name: string): Uint8Array {
+  const labels = name.replace(/\.$/, '').split('.');
+  const encoder = new TextEncoder();
+  const parts: number[] = [
+    0x00, 0x00, // ID 0, as recommended for DoH
+    0x01, 0x20, // RD, AD
+    0x00, 0x01, // QDCOUNT
+    0x00, 0x00, // ANCOUNT
+    0x00, 0x00, // NSCOUNT
+    0x00, 0x00, // ARCOUNT
+  ];
+
+  for (const label of labels) {
+    const bytes = encoder.encode(label);
+    parts.push(bytes.length, ...bytes);
+  }
+  parts.push(0x00, 0x00, TYPE_TXT, 0x00, 0x01); // root, QTYPE TXT, QCLASS IN
+
+  return new Uint8Array(parts);
+}
+
+/**
+ * Decode the TXT answers of a DNS wire-format response
+ */
+function decodeResponse(message: Uint8Array): TxtLookup {
+  const view = new DataView(message.buffer, message.byteOffset, message.byteLength);
+  const flags = view.getUint16(2);
+  const rcode = flags & 0x000f;
+  const authenticated = (flags & 0x0020) !== 0;
+
+  // NXDOMAIN
+  if (rcode === 3) {
+    return { records: [], ttl: NEGATIVE_TTL, authenticated };
+  }
+  if (rcode !== 0) {
+    throw new Error(`DoH query failed with DNS status ${rcode}`);
+  }
+
+  const questions = view.getUint16(4);
+  const answers = view.getUint16(6);
+  let offset = 12;
+
+  for (let i = 0; i < questions; i++) {
+    offset = skipName(message, offset) + 4;
+  }
+
+  const decoder = new TextDecoder();
+  const records: string[] = [];
+  let ttl = Infinity;
+
+  for (let i = 0; i < answers; i++) {
+    offset = skipName(message, offset);
+    const type = view.getUint16(offset);
+    const answerTTL = view.getUint32(offset + 4);
+    const length = view.getUint16(offset + 8);
+    offset += 10;
+
+    if (type === TYPE_TXT) {
+      let txt = '';
+      let position = offset;
+      while (position < offset + length) {
+        const size = message[position];
+        txt += decoder.decode(message.subarray(position + 1, position + 1 + size));
+        position += size + 1;
+      }
+      records.push(txt);
+      ttl = Math.min(ttl, answerTTL);
+    }
+    offset += length;
+  }
+
+  return {
+    records,
+    ttl: records.length ? ttl : NEGATIVE_TTL,
+    authenticated,
+  };
+}
+
+/**
+ * Skip a possibly compressed domain name, returning the offset after it
+ */
+function skipName(message: Uint8Array, offset: number): number {
+  while (offset < message.length) {
+    const length = message[offset];
+    if (length === 0) {
+      return offset + 1;
+    }
+    if ((length & 0xc0) === 0xc0) {
+      return offset + 2;
+    }
+    offset += length + 1;
+  }
+  throw new Error('Malformed DNS message');
+}
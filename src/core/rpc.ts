@@ -0,0 +1,208 @@
+import { Connection } from '@solana/web3.js';
+import type { RpcEndpointStatus, RpcPoolOptions } from './types';
+
+interface EndpointState {
+  url: string;
+  rateLimit?: number;
+  /** Token bucket level, refilled at rateLimit per second up to one second's worth */
+  tokens: number;
+  refilledAt: number;
+  /** Passed over until this time after failing */
+  downUntil: number;
+  requests: number;
+  failures: number;
+  lastError?: string;
+}
+
+/**
+ * Pool of RPC endpoints behind one Connection
+ * Each request goes to the first endpoint, in order of preference, that is
+ * healthy and within its rate limit. Network errors, timeouts, 429 and 5xx
+ * responses take an endpoint out of rotation for the cooldown and the
+ * request moves on to the next one. Endpoints cooling down are still tried
+ * as a last resort, and a passing health check brings them back early.
+ */
+export class RpcPool {
+  /** Connection sending its requests through the pool */
+  readonly connection: Connection;
+  private endpoints: EndpointState[];
+  private cooldown: number;
+  private timeout: number;
+  private timer?: ReturnType<typeof setInterval>;
+
+  constructor(options: RpcPoolOptions) {
+    if (!options.endpoints.length) {
+      throw new Error('RpcPool needs at least one endpoint');
+    }
+
+    const now = Date.now();
+    this.endpoints = options.endpoints.map(endpoint => {
+      const { url, rateLimit } = typeof endpoint === 'string' ? { url: endpoint } : endpoint;
+      return {
+        url,
+        rateLimit,
+        tokens: burstOf(rateLimit),
+        refilledAt: now,
+        downUntil: 0,
+        requests: 0,
+        failures: 0,
+      };
+    });
+    this.cooldown = options.cooldown ?? 30000;
+    this.timeout = options.timeout ?? 10000;
+
+    this.connection = new Connection(this.endpoints[0].url, {
+      commitment: 'confirmed',
+      // Rate limited endpoints are failed over here instead of retried
+      disableRetryOnRateLimit: true,
+      fetch: (_url, init) => this.send(init),
+    });
+
+    const interval = options.healthCheckInterval ?? 30000;
+    if (interval > 0) {
+      // Without keeping the process alive for it
+      this.timer = setInterval(() => void this.check(), interval);
+      this.timer.unref?.();
+    }
+  }
+
+  /**
+   * Current state of every endpoint
+   */
+  status(): RpcEndpointStatus[] {
+    const now = Date.now();
+    return this.endpoints.map(e => ({
+      url: e.url,
+      healthy: e.downUntil <= now,
+      requests: e.requests,
+      failures: e.failures,
+      lastError: e.lastError,
+    }));
+  }
+
+  /**
+   * Ask every endpoint for getHealth and update its state
+   */
+  async check(): Promise<void> {
+    const body = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'getHealth' });
+    await Promise.all(
+      this.endpoints.map(async endpoint => {
+        try {
+          const response = await this.request(endpoint, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body,
+          });
+          const { result, error } = (await response.json()) as {
+            result?: string;
+            error?: { message?: string };
+          };
+          if (result === 'ok') {
+            this.succeed(endpoint);
+          } else {
+            this.fail(endpoint, error?.message || `getHealth answered ${JSON.stringify(result)}`);
+          }
+        } catch (error) {
+          this.fail(endpoint, error instanceof Error ? error.message : String(error));
+        }
+      })
+    );
+  }
+
+  /**
+   * Stop the periodic health checks
+   */
+  close(): void {
+    clearInterval(this.timer);
+  }
+
+  /**
+   * Send a JSON-RPC request, failing over between endpoints
+   * Resolves the last error response, or throws the last network error,
+   * when no endpoint answers.
+   */
+  private async send(init?: RequestInit): Promise<Response> {
+    const tried = new Set<EndpointState>();
+    let last: Response | undefined;
+    let lastError: unknown;
+
+    for (let endpoint = await this.next(tried); endpoint; endpoint = await this.next(tried)) {
+      tried.add(endpoint);
+      try {
+        const response = await this.request(endpoint, init);
+        if (response.status !== 429 && response.status < 500) {
+          this.succeed(endpoint);
+          return response;
+        }
+        this.fail(endpoint, `HTTP ${response.status}`);
+        last = response;
+      } catch (error) {
+        this.fail(endpoint, error instanceof Error ? error.message : String(error));
+        lastError = error;
+      }
+    }
+
+    if (last) {
+      return last;
+    }
+    throw lastError;
+  }
+
+  /**
+   * Pick the next endpoint to try, waiting for a rate limit token if every
+   * healthy endpoint is at its limit
+   */
+  private async next(tried: Set<EndpointState>): Promise<EndpointState | undefined> {
+    for (;;) {
+      const now = Date.now();
+      const untried = this.endpoints.filter(e => !tried.has(e));
+      const healthy = untried.filter(e => e.downUntil <= now);
+      if (!healthy.length) {
+        return untried[0];
+      }
+
+      const ready = healthy.find(e => this.takeToken(e, now));
+      if (ready) {
+        return ready;
+      }
+      const wait = Math.min(...healthy.map(e => ((1 - e.tokens) / (e.rateLimit as number)) * 1000));
+      await new Promise(resolve => setTimeout(resolve, Math.ceil(wait)));
+    }
+  }
+
+  private takeToken(endpoint: EndpointState, now: number): boolean {
+    if (!endpoint.rateLimit) {
+      return true;
+    }
+    endpoint.tokens = Math.min(
+      burstOf(endpoint.rateLimit),
+      endpoint.tokens + ((now - endpoint.refilledAt) / 1000) * endpoint.rateLimit
+    );
+    endpoint.refilledAt = now;
+    if (endpoint.tokens < 1) {
+      return false;
+    }
+    endpoint.tokens -= 1;
+    return true;
+  }
+
+  private request(endpoint: EndpointState, init?: RequestInit): Promise<Response> {
+    endpoint.requests++;
+    return fetch(endpoint.url, { ...init, signal: AbortSignal.timeout(this.timeout) });
+  }
+
+  private succeed(endpoint: EndpointState): void {
+    endpoint.downUntil = 0;
+    endpoint.failures = 0;
+  }
+
+  private fail(endpoint: EndpointState, message: string): void {
+    endpoint.downUntil = Date.now() + this.cooldown;
+    endpoint.failures++;
+    endpoint.lastError = message;
+  }
+}
+
+function burstOf(rateLimit?: number): number {
+  return Math.max(1, rateLimit || 0);
+}
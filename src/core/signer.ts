@@ -0,0 +1,117 @@
+import { ed25519 } from '@noble/curves/ed25519';
+import { Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import type { Signer } from './types';
+
+const DEFAULT_TIMEOUT = 10000;
+
+/**
+ * Signer backed by an in-process keypair
+ */
+export class KeypairSigner implements Signer {
+  constructor(private keypair: Keypair) {}
+
+  static fromSecretKey(secretKey: Uint8Array): KeypairSigner {
+    return new KeypairSigner(Keypair.fromSecretKey(secretKey));
+  }
+
+  get publicKey(): PublicKey {
+    return this.keypair.publicKey;
+  }
+
+  async signTransaction(transaction: Transaction): Promise<Transaction> {
+    transaction.partialSign(this.keypair);
+    return transaction;
+  }
+
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    return ed25519.sign(message, this.keypair.secretKey.slice(0, 32));
+  }
+}
+
+/**
+ * Signer that delegates to a remote signing service over HTTP
+ * (KMS proxy, HSM gateway, wallet service)
+ *
+ * Protocol: POST {endpoint} with JSON
+ *   { publicKey, kind: 'transaction' | 'message', message: <base64> }
+ * where message is the serialized transaction message or the raw message.
+ * The service answers { signature: <base58 ed25519 signature> }.
+ * Signatures are checked locally before they are used; requests taking
+ * longer than `timeout` ms are abandoned.
+ */
+export class RemoteSigner implements Signer {
+  readonly publicKey: PublicKey;
+  private endpoint: string;
+  private headers: Record<string, string>;
+  private timeout: number;
+  private fetchImpl: typeof fetch;
+
+  constructor(options: {
+    endpoint: string;
+    publicKey: string | PublicKey;
+    /** Extra request headers, e.g. authorization */
+    headers?: Record<string, string>;
+    /** Milliseconds to wait for a signature (default 10000) */
+    timeout?: number;
+    fetch?: typeof fetch;
+  }) {
+    this.endpoint = options.endpoint;
+    this.publicKey = new PublicKey(options.publicKey);
+    this.headers = options.headers || {};
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+    this.fetchImpl = options.fetch || fetch;
+  }
+
+  async signTransaction(transaction: Transaction): Promise<Transaction> {
+    const message = transaction.serializeMessage();
+    const signature = await this.requestSignature('transaction', message);
+    transaction.addSignature(this.publicKey, Buffer.from(signature));
+    return transaction;
+  }
+
+  async signMessage(message: Uint8Array): Promise<Uint8Array> {
+    return this.requestSignature('message', message);
+  }
+
+  private async requestSignature(
+    kind: 'transaction' | 'message',
+    message: Uint8Array
+  ): Promise<Uint8Array> {
+    let signature: string | undefined;
+    try {
+      const response = await this.fetchImpl(this.endpoint, {
+        method: 'POST',
+        headers: { ...this.headers, 'content-type': 'application/json' },
+        body: JSON.stringify({
+          publicKey: this.publicKey.toBase58(),
+          kind,
+          message: Buffer.from(message).toString('base64'),
+        }),
+        signal: AbortSignal.timeout(this.timeout),
+      });
+      if (!response.ok) {
+        throw new Error(`Remote signer failed with HTTP ${response.status}`);
+      }
+      ({ signature } = (await response.json()) as { signature?: string });
+    } catch (error) {
+      if ((error as Error).name === 'TimeoutError') {
+        throw new Error(`Remote signer did not answer within ${this.timeout}ms`);
+      }
+      throw error;
+    }
+
+    const bytes = signature ? bs58.decode(signature) : new Uint8Array();
+    if (bytes.length !== 64 || !ed25519.verify(bytes, message, this.publicKey.toBytes())) {
+      throw new Error('Remote signer returned an invalid signature');
+    }
+    return bytes;
+  }
+}
+
+/**
+ * Accept either a Signer or a raw Keypair
+ */
+export function toSigner(signer: Signer | Keypair): Signer {
+  return signer instanceof Keypair ? new KeypairSigner(signer) : signer;
+}
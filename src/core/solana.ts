@@ -2,111 +2,196 @@ import {
   Connection,
   Keypair,
   PublicKey,
-  Transaction,
   SystemProgram,
-  LAMPORTS_PER_SOL,
-  sendAndConfirmTransaction,
+  TransactionInstruction,
+  VersionedTransactionResponse,
 } from '@solana/web3.js';
 import {
-  getAssociatedTokenAddress,
-  createTransferInstruction,
-  getAccount,
-  createAssociatedTokenAccountInstruction,
+  TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  getAssociatedTokenAddressSync,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  unpackMint,
 } from '@solana/spl-token';
-import type { DNS402Record, PaymentProof, SupportedCurrency } from './types';
+import type {
+  DNS402Record,
+  MintInfo,
+  PaymentCommitment,
+  PaymentProof,
+  PaymentRejectionReason,
+  PaymentVerification,
+  RpcEndpoint,
+  Signer,
+  SubmitOptions,
+  SupportedCurrency,
+  VerifyPaymentOptions,
+} from './types';
 import { USDC_MINTS, DNS402_MINT, TOKEN_DECIMALS } from './types';
+import { toSigner } from './signer';
+import { SubmissionError, submitTransaction } from './submit';
+import { RpcPool } from './rpc';
 
 const DEFAULT_RPC = 'https://api.mainnet-beta.solana.com';
 
 /**
  * Create a Solana connection
+ * Several endpoints are pooled with failover (see RpcPool).
  */
-export function createConnection(endpoint: string = DEFAULT_RPC): Connection {
+export function createConnection(
+  endpoint: string | Array<string | RpcEndpoint> = DEFAULT_RPC
+): Connection {
+  if (typeof endpoint !== 'string') {
+    return new RpcPool({ endpoints: endpoint }).connection;
+  }
   return new Connection(endpoint, 'confirmed');
 }
 
+/**
+ * Submit payment instructions and return the proof once they land
+ * Throws a SubmissionError if the transaction failed or expired.
+ */
+async function submitPayment(
+  connection: Connection,
+  signer: Signer,
+  instructions: TransactionInstruction[],
+  options: SubmitOptions
+): Promise<PaymentProof> {
+  const result = await submitTransaction(connection, signer, instructions, options);
+  if (result.status !== 'landed') {
+    throw new SubmissionError(result);
+  }
+
+  return {
+    signature: result.signature,
+    payer: signer.publicKey.toBase58(),
+    timestamp: Date.now(),
+  };
+}
+
 /**
  * Send SOL payment
  */
 export async function sendSOLPayment(
   connection: Connection,
-  payer: Keypair,
+  payer: Signer | Keypair,
   recipient: string,
-  amount: number
+  amount: number,
+  options: SubmitOptions = {}
 ): Promise<PaymentProof> {
+  const signer = toSigner(payer);
   const recipientPubkey = new PublicKey(recipient);
-  const lamports = Math.floor(amount * LAMPORTS_PER_SOL);
+  const lamports = toBaseUnits(amount, TOKEN_DECIMALS.SOL);
 
-  const transaction = new Transaction().add(
+  const instructions = [
     SystemProgram.transfer({
-      fromPubkey: payer.publicKey,
+      fromPubkey: signer.publicKey,
       toPubkey: recipientPubkey,
       lamports,
-    })
-  );
+    }),
+  ];
 
-  const signature = await sendAndConfirmTransaction(connection, transaction, [payer]);
+  return submitPayment(connection, signer, instructions, options);
+}
 
-  return {
-    signature,
-    payer: payer.publicKey.toBase58(),
-    timestamp: Date.now(),
-  };
+/** Mint metadata by RPC endpoint and mint; decimals and owner never change */
+const mintCache = new Map<string, Promise<MintInfo>>();
+
+/**
+ * Read a mint's decimals and owning token program from chain
+ * Works for both the classic token program and Token-2022. Results are
+ * cached per RPC endpoint.
+ */
+export function getMintInfo(connection: Connection, mint: string): Promise<MintInfo> {
+  const key = `${connection.rpcEndpoint}|${mint}`;
+  let info = mintCache.get(key);
+  if (!info) {
+    info = fetchMintInfo(connection, mint);
+    // Do not cache failures
+    info.catch(() => mintCache.delete(key));
+    mintCache.set(key, info);
+  }
+  return info;
+}
+
+async function fetchMintInfo(connection: Connection, mint: string): Promise<MintInfo> {
+  const address = new PublicKey(mint);
+  const account = await connection.getAccountInfo(address);
+  if (!account) {
+    throw new Error(`Mint ${mint} not found`);
+  }
+
+  const programId = account.owner;
+  if (!programId.equals(TOKEN_PROGRAM_ID) && !programId.equals(TOKEN_2022_PROGRAM_ID)) {
+    throw new Error(`Account ${mint} is not a token mint`);
+  }
+
+  const { decimals } = unpackMint(address, account, programId);
+  return { mint, decimals, programId };
 }
 
 /**
  * Send SPL token payment (USDC, DNS402, or custom token)
+ * Decimals and token program (classic or Token-2022) are read from the mint.
+ * Pass `decimals` to refuse mints whose decimals differ from what you expect.
  */
 export async function sendSPLTokenPayment(
   connection: Connection,
-  payer: Keypair,
+  payer: Signer | Keypair,
   recipient: string,
   amount: number,
   mint: string,
-  decimals: number = 6
+  decimals?: number,
+  options: SubmitOptions = {}
 ): Promise<PaymentProof> {
+  const signer = toSigner(payer);
   const tokenMint = new PublicKey(mint);
   const recipientPubkey = new PublicKey(recipient);
 
-  // Get associated token accounts
-  const payerATA = await getAssociatedTokenAddress(tokenMint, payer.publicKey);
-  const recipientATA = await getAssociatedTokenAddress(tokenMint, recipientPubkey);
-
-  const transaction = new Transaction();
-
-  // Check if recipient ATA exists, create if not
-  try {
-    await getAccount(connection, recipientATA);
-  } catch {
-    transaction.add(
-      createAssociatedTokenAccountInstruction(
-        payer.publicKey,
-        recipientATA,
-        recipientPubkey,
-        tokenMint
-      )
-    );
+  const info = await getMintInfo(connection, mint);
+  if (decimals !== undefined && decimals !== info.decimals) {
+    throw new Error(`Mint ${mint} has ${info.decimals} decimals, expected ${decimals}`);
   }
 
-  // Calculate token amount based on decimals
-  const tokenAmount = Math.floor(amount * Math.pow(10, decimals));
+  // Get associated token accounts
+  const payerATA = getAssociatedTokenAddressSync(
+    tokenMint,
+    signer.publicKey,
+    false,
+    info.programId
+  );
+  const recipientATA = getAssociatedTokenAddressSync(
+    tokenMint,
+    recipientPubkey,
+    false,
+    info.programId
+  );
+
+  // Calculate token amount based on the mint's decimals
+  const tokenAmount = toBaseUnits(amount, info.decimals);
 
-  transaction.add(
-    createTransferInstruction(
+  const instructions = [
+    // Create the recipient ATA if it does not exist yet
+    createAssociatedTokenAccountIdempotentInstruction(
+      signer.publicKey,
+      recipientATA,
+      recipientPubkey,
+      tokenMint,
+      info.programId
+    ),
+    createTransferCheckedInstruction(
       payerATA,
+      tokenMint,
       recipientATA,
-      payer.publicKey,
-      tokenAmount
-    )
-  );
+      signer.publicKey,
+      tokenAmount,
+      info.decimals,
+      [],
+      info.programId
+    ),
+  ];
 
-  const signature = await sendAndConfirmTransaction(connection, transaction, [payer]);
-
-  return {
-    signature,
-    payer: payer.publicKey.toBase58(),
-    timestamp: Date.now(),
-  };
+  return submitPayment(connection, signer, instructions, options);
 }
 
 /**
@@ -115,10 +200,11 @@ export async function sendSPLTokenPayment(
  */
 export async function sendUSDCPayment(
   connection: Connection,
-  payer: Keypair,
+  payer: Signer | Keypair,
   recipient: string,
   amount: number,
-  mint?: string
+  mint?: string,
+  options: SubmitOptions = {}
 ): Promise<PaymentProof> {
   return sendSPLTokenPayment(
     connection,
@@ -126,7 +212,8 @@ export async function sendUSDCPayment(
     recipient,
     amount,
     mint || USDC_MINTS.mainnet,
-    TOKEN_DECIMALS.USDC
+    TOKEN_DECIMALS.USDC,
+    options
   );
 }
 
@@ -135,9 +222,10 @@ export async function sendUSDCPayment(
  */
 export async function sendDNS402Payment(
   connection: Connection,
-  payer: Keypair,
+  payer: Signer | Keypair,
   recipient: string,
-  amount: number
+  amount: number,
+  options: SubmitOptions = {}
 ): Promise<PaymentProof> {
   return sendSPLTokenPayment(
     connection,
@@ -145,7 +233,8 @@ export async function sendDNS402Payment(
     recipient,
     amount,
     DNS402_MINT,
-    TOKEN_DECIMALS.DNS402
+    TOKEN_DECIMALS.DNS402,
+    options
   );
 }
 
@@ -154,103 +243,347 @@ export async function sendDNS402Payment(
  */
 export async function sendPayment(
   connection: Connection,
-  payer: Keypair,
-  record: DNS402Record
+  payer: Signer | Keypair,
+  record: DNS402Record,
+  options: SubmitOptions = {}
 ): Promise<PaymentProof> {
-  switch (record.currency) {
-    case 'SOL':
-      return sendSOLPayment(connection, payer, record.wallet, record.price);
+  if (record.currency === 'SOL') {
+    return sendSOLPayment(connection, payer, record.wallet, record.price, options);
+  }
+
+  // USDC, DNS402 and custom tokens via the mint field
+  return sendSPLTokenPayment(
+    connection,
+    payer,
+    record.wallet,
+    record.price,
+    getCurrencyMint(record.currency, record.mint),
+    undefined,
+    options
+  );
+}
+
+/**
+ * Resolve the token mint a currency is paid in
+ */
+export function getCurrencyMint(currency: string, mint?: string): string {
+  switch (currency) {
     case 'USDC':
-      return sendSPLTokenPayment(
-        connection,
-        payer,
-        record.wallet,
-        record.price,
-        record.mint || USDC_MINTS.mainnet,
-        TOKEN_DECIMALS.USDC
-      );
+      return mint || USDC_MINTS.mainnet;
     case 'DNS402':
-      return sendDNS402Payment(connection, payer, record.wallet, record.price);
+      return mint || DNS402_MINT;
     default:
-      // Support custom tokens via mint field
-      if (record.mint) {
-        return sendSPLTokenPayment(
-          connection,
-          payer,
-          record.wallet,
-          record.price,
-          record.mint,
-          6 // default decimals
-        );
+      if (mint) {
+        return mint;
       }
-      throw new Error(`Unsupported currency: ${record.currency}`);
+      throw new Error(`Unsupported currency: ${currency}`);
+  }
+}
+
+/**
+ * Get a wallet's balance in a currency, in base units
+ */
+export async function getBalance(
+  connection: Connection,
+  owner: string,
+  currency: string,
+  mint?: string
+): Promise<{ amount: bigint; decimals: number }> {
+  const ownerPubkey = new PublicKey(owner);
+
+  if (currency === 'SOL') {
+    const lamports = await connection.getBalance(ownerPubkey);
+    return { amount: BigInt(lamports), decimals: TOKEN_DECIMALS.SOL };
+  }
+
+  const mintAddress = getCurrencyMint(currency, mint);
+  const [{ decimals }, { value }] = await Promise.all([
+    getMintInfo(connection, mintAddress),
+    connection.getParsedTokenAccountsByOwner(ownerPubkey, {
+      mint: new PublicKey(mintAddress),
+    }),
+  ]);
+
+  let amount = BigInt(0);
+  for (const { account } of value) {
+    amount += BigInt(account.data.parsed.info.tokenAmount.amount);
+  }
+  return { amount, decimals };
+}
+
+/**
+ * Convert a decimal amount to integer base units (lamports, token units)
+ */
+export function toBaseUnits(amount: number, decimals: number): bigint {
+  const [whole, fraction = ''] = amount.toFixed(decimals).split('.');
+  return BigInt(whole + fraction);
+}
+
+/** How long a transaction found on chain is reused for verifications */
+const TRANSACTION_CACHE_TTL = 10 * 60 * 1000;
+/** Transactions kept at most; the oldest are dropped first */
+const TRANSACTION_CACHE_SIZE = 1000;
+
+/** Transaction lookups by RPC endpoint, commitment and signature */
+const transactionCache = new Map<
+  string,
+  { transaction: Promise<VersionedTransactionResponse | null>; expiresAt: number }
+>();
+
+/**
+ * Look up a transaction, reusing a cached or in-flight lookup of the same
+ * signature so concurrent verifications make one RPC call
+ * Transactions that are not found are not cached, they may still land.
+ */
+function lookupTransaction(
+  connection: Connection,
+  signature: string,
+  commitment: PaymentCommitment
+): { transaction: Promise<VersionedTransactionResponse | null>; cached: boolean } {
+  const key = `${connection.rpcEndpoint}|${commitment}|${signature}`;
+  const entry = transactionCache.get(key);
+  if (entry && entry.expiresAt > Date.now()) {
+    return { transaction: entry.transaction, cached: true };
+  }
+
+  const transaction = connection.getTransaction(signature, {
+    commitment,
+    maxSupportedTransactionVersion: 0,
+  });
+  transactionCache.delete(key);
+  transactionCache.set(key, { transaction, expiresAt: Date.now() + TRANSACTION_CACHE_TTL });
+  const forget = () => {
+    if (transactionCache.get(key)?.transaction === transaction) {
+      transactionCache.delete(key);
+    }
+  };
+  transaction.then(tx => tx || forget(), forget);
+
+  if (transactionCache.size > TRANSACTION_CACHE_SIZE) {
+    transactionCache.delete(transactionCache.keys().next().value as string);
   }
+  return { transaction, cached: false };
 }
 
 /**
  * Verify a payment on-chain
+ * Compares exact base units of the expected mint credited to the recipient.
+ * Transaction lookups are cached by signature, see lookupTransaction.
  */
 export async function verifyPayment(
   connection: Connection,
   signature: string,
   expectedRecipient: string,
   expectedAmount: number,
-  currency: SupportedCurrency
-): Promise<boolean> {
+  currency: SupportedCurrency,
+  options: VerifyPaymentOptions = {}
+): Promise<PaymentVerification> {
+  const commitment = options.commitment || 'confirmed';
+  const lookup =
+    options.cache === false
+      ? {
+          transaction: connection.getTransaction(signature, {
+            commitment,
+            maxSupportedTransactionVersion: 0,
+          }),
+          cached: false,
+        }
+      : lookupTransaction(connection, signature, commitment);
+
+  const verification = await checkPayment(
+    connection,
+    signature,
+    lookup.transaction,
+    expectedRecipient,
+    expectedAmount,
+    currency,
+    { ...options, commitment }
+  );
+  return lookup.cached ? { ...verification, cached: true } : verification;
+}
+
+/**
+ * Check a looked up transaction against the expected payment
+ */
+async function checkPayment(
+  connection: Connection,
+  signature: string,
+  transaction: Promise<VersionedTransactionResponse | null>,
+  expectedRecipient: string,
+  expectedAmount: number,
+  currency: SupportedCurrency,
+  options: VerifyPaymentOptions & { commitment: PaymentCommitment }
+): Promise<PaymentVerification> {
   try {
-    const tx = await connection.getTransaction(signature, {
-      commitment: 'confirmed',
-      maxSupportedTransactionVersion: 0,
-    });
+    const commitment = options.commitment;
+    const tx = await transaction;
 
     if (!tx || !tx.meta) {
-      return false;
+      // Distinguish a payment that has not finalized yet from a missing one
+      if (commitment === 'finalized') {
+        const { value } = await connection.getSignatureStatus(signature);
+        if (value && !value.err && value.confirmationStatus === 'confirmed') {
+          return reject('not_finalized', 'Transaction is not finalized yet');
+        }
+      }
+      return reject('not_found', 'Transaction not found');
     }
 
     // Check if transaction was successful
     if (tx.meta.err) {
-      return false;
+      return reject('transaction_failed', 'Transaction failed on-chain');
+    }
+
+    // Old transfers to the recipient must not buy new access
+    if (options.maxAge !== undefined) {
+      if (!tx.blockTime) {
+        return reject('stale', 'Transaction has no block time');
+      }
+      const age = Date.now() / 1000 - tx.blockTime;
+      if (age > options.maxAge) {
+        return reject('stale', `Transaction is ${Math.floor(age)}s old, maximum is ${options.maxAge}s`);
+      }
     }
 
     const recipientPubkey = new PublicKey(expectedRecipient);
+    const accountKeys = tx.transaction.message.getAccountKeys();
+
+    // Check the claimed payer actually signed the payment
+    if (options.payer) {
+      const payerPubkey = new PublicKey(options.payer);
+      const signerCount = tx.transaction.message.header.numRequiredSignatures;
+      let signed = false;
+      for (let i = 0; i < signerCount; i++) {
+        if (accountKeys.get(i)?.equals(payerPubkey)) {
+          signed = true;
+          break;
+        }
+      }
+      if (!signed) {
+        return reject('payer_mismatch', 'Payer did not sign the transaction');
+      }
+    }
+
+    let received = BigInt(0);
+    let decimals: number;
 
     if (currency === 'SOL') {
-      // Check SOL transfer
+      // Check SOL transfer in lamports
       const preBalances = tx.meta.preBalances;
       const postBalances = tx.meta.postBalances;
-      const accountKeys = tx.transaction.message.getAccountKeys();
+      let credited = false;
 
       for (let i = 0; i < accountKeys.length; i++) {
         if (accountKeys.get(i)?.equals(recipientPubkey)) {
-          const received = (postBalances[i] - preBalances[i]) / LAMPORTS_PER_SOL;
-          if (received >= expectedAmount * 0.99) {
-            return true;
-          }
+          received += BigInt(postBalances[i]) - BigInt(preBalances[i]);
+          credited = true;
         }
       }
+
+      if (!credited) {
+        return reject('recipient_not_credited', 'Recipient is not part of the transaction');
+      }
+      decimals = TOKEN_DECIMALS.SOL;
     } else {
-      // Check SPL token transfer (USDC, DNS402, etc.) via post token balances
+      // Check SPL token transfer (USDC, DNS402, etc.) via token balances,
+      // counting only accounts of the expected mint. Balances cover classic
+      // and Token-2022 accounts alike; for mints with a transfer fee the
+      // recipient's net credit is what counts.
+      const mint = getCurrencyMint(currency, options.mint);
       const postTokenBalances = tx.meta.postTokenBalances || [];
       const preTokenBalances = tx.meta.preTokenBalances || [];
+      let mintDecimals: number | undefined;
+      let otherMint = false;
 
       for (const post of postTokenBalances) {
-        if (post.owner === expectedRecipient) {
-          const pre = preTokenBalances.find(
-            p => p.accountIndex === post.accountIndex
-          );
-          const preAmount = pre?.uiTokenAmount.uiAmount || 0;
-          const postAmount = post.uiTokenAmount.uiAmount || 0;
-          const received = postAmount - preAmount;
-
-          if (received >= expectedAmount * 0.99) {
-            return true;
-          }
+        if (post.owner !== expectedRecipient) continue;
+        if (post.mint !== mint) {
+          otherMint = true;
+          continue;
         }
+
+        const pre = preTokenBalances.find(
+          p => p.accountIndex === post.accountIndex && p.mint === post.mint
+        );
+        received += BigInt(post.uiTokenAmount.amount) - BigInt(pre?.uiTokenAmount.amount || '0');
+        mintDecimals = post.uiTokenAmount.decimals;
+      }
+
+      if (mintDecimals === undefined) {
+        return otherMint
+          ? reject('wrong_mint', `Recipient was not credited in mint ${mint}`)
+          : reject('recipient_not_credited', 'Recipient has no token balance change');
       }
+      decimals = mintDecimals;
     }
 
-    return false;
-  } catch {
-    return false;
+    const expected = toBaseUnits(expectedAmount, decimals);
+    const shortfall = BigInt(Math.floor(Number(expected) * (options.tolerance || 0)));
+    const required = expected - shortfall;
+
+    if (received < required) {
+      return {
+        valid: false,
+        reason: 'insufficient_amount',
+        message: `Received ${received} base units, expected ${required}`,
+        received: received.toString(),
+        expected: required.toString(),
+        slot: tx.slot,
+        blockTime: tx.blockTime ?? undefined,
+      };
+    }
+
+    return {
+      valid: true,
+      received: received.toString(),
+      expected: required.toString(),
+      slot: tx.slot,
+      blockTime: tx.blockTime ?? undefined,
+    };
+  } catch (error) {
+    return reject('rpc_error', error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Wait for a transaction to reach finalized commitment
+ * Resolves 'failed' if it errored, or 'dropped' if the RPC no longer knew
+ * it at the timeout (e.g. it landed on an abandoned fork). When RPC errors
+ * or a transaction still short of finalized leave that open, resolves
+ * 'unknown' rather than calling it dropped.
+ */
+export async function waitForFinality(
+  connection: Connection,
+  signature: string,
+  options: { timeout?: number; interval?: number } = {}
+): Promise<'finalized' | 'failed' | 'dropped' | 'unknown'> {
+  const timeout = options.timeout ?? 120000;
+  const interval = options.interval ?? 5000;
+  const deadline = Date.now() + timeout;
+  let missing = false;
+
+  while (Date.now() < deadline) {
+    try {
+      const { value } = await connection.getSignatureStatus(signature, {
+        searchTransactionHistory: true,
+      });
+      if (value?.err) {
+        return 'failed';
+      }
+      if (value?.confirmationStatus === 'finalized') {
+        return 'finalized';
+      }
+      missing = !value;
+    } catch {
+      // Transient RPC errors: keep polling until the deadline
+      missing = false;
+    }
+    await new Promise(resolve => setTimeout(resolve, interval));
   }
+
+  return missing ? 'dropped' : 'unknown';
+}
+
+function reject(reason: PaymentRejectionReason, message: string): PaymentVerification {
+  return { valid: false, reason, message };
 }
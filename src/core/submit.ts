@@ -0,0 +1,179 @@
+import {
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  SendTransactionError,
+  Transaction,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import type { Signer, SubmissionResult, SubmitOptions } from './types';
+
+const DEFAULT_REBROADCAST_INTERVAL = 2000;
+const DEFAULT_TIMEOUT = 120000;
+const DEFAULT_FEE_PERCENTILE = 75;
+const DEFAULT_MAX_PRIORITY_FEE = 1_000_000;
+
+/**
+ * A payment transaction did not land
+ * `result.status` tells whether it failed or expired; after expiry the
+ * transaction can never land, so paying again is safe.
+ */
+export class SubmissionError extends Error {
+  readonly name = 'SubmissionError';
+
+  constructor(readonly result: Exclude<SubmissionResult, { status: 'landed' }>) {
+    super(
+      result.status === 'failed'
+        ? `Transaction ${result.signature} failed: ${result.error}`
+        : `Transaction ${result.signature} expired before landing`
+    );
+  }
+}
+
+/**
+ * Sign and submit a transaction until it lands, fails or expires
+ *
+ * The transaction is signed once, so every rebroadcast carries the same
+ * signature and can land at most once. Its status is checked before each
+ * resend, and it is only reported expired once the blockhash is past its
+ * last valid block height and the transaction is nowhere to be found.
+ */
+export async function submitTransaction(
+  connection: Connection,
+  signer: Signer,
+  instructions: TransactionInstruction[],
+  options: SubmitOptions = {}
+): Promise<SubmissionResult> {
+  const interval = options.rebroadcastInterval ?? DEFAULT_REBROADCAST_INTERVAL;
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+  const commitment = options.commitment || 'confirmed';
+
+  const transaction = new Transaction();
+  if (options.computeUnitLimit) {
+    transaction.add(ComputeBudgetProgram.setComputeUnitLimit({ units: options.computeUnitLimit }));
+  }
+  const priorityFee = await resolvePriorityFee(connection, instructions, options);
+  if (priorityFee > 0) {
+    transaction.add(ComputeBudgetProgram.setComputeUnitPrice({ microLamports: priorityFee }));
+  }
+  transaction.add(...instructions);
+
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+  transaction.feePayer = signer.publicKey;
+  transaction.recentBlockhash = blockhash;
+
+  const signed = await signer.signTransaction(transaction);
+  if (!signed.signature) {
+    throw new Error('Signer did not sign the transaction');
+  }
+  const signature = bs58.encode(signed.signature);
+  const raw = signed.serialize();
+
+  // The first send runs preflight, so transactions that cannot succeed are
+  // rejected before they reach the network
+  try {
+    await connection.sendRawTransaction(raw, { maxRetries: 0 });
+  } catch (error) {
+    if (error instanceof SendTransactionError) {
+      return { status: 'failed', signature, error: error.message };
+    }
+    // Transport errors leave the outcome open; keep checking and resending
+  }
+
+  let lastContact = Date.now();
+  while (Date.now() - lastContact < timeout) {
+    await sleep(interval);
+
+    try {
+      const { value } = await connection.getSignatureStatuses([signature], {
+        searchTransactionHistory: true,
+      });
+      const status = value[0];
+      lastContact = Date.now();
+
+      if (status?.err) {
+        return {
+          status: 'failed',
+          signature,
+          error: JSON.stringify(status.err),
+          slot: status.slot,
+        };
+      }
+      if (status && reached(status.confirmationStatus, commitment)) {
+        return { status: 'landed', signature, slot: status.slot };
+      }
+      if (status) {
+        // Processed but not yet at the requested commitment: wait, do not resend
+        continue;
+      }
+
+      const height = await connection.getBlockHeight('confirmed');
+      if (height > lastValidBlockHeight) {
+        // It may have landed between the two queries; look once more
+        const { value: final } = await connection.getSignatureStatuses([signature], {
+          searchTransactionHistory: true,
+        });
+        if (final[0]) continue;
+        return { status: 'expired', signature };
+      }
+
+      await connection.sendRawTransaction(raw, { skipPreflight: true, maxRetries: 0 });
+    } catch {
+      // RPC unavailable: retry until the timeout
+    }
+  }
+
+  throw new Error(
+    `Could not determine the status of transaction ${signature}: RPC unreachable for ${timeout}ms`
+  );
+}
+
+/**
+ * Priority fee in micro-lamports per compute unit
+ * 'auto' takes a percentile of the recent fees paid for the accounts the
+ * transaction writes to, capped at maxPriorityFee.
+ */
+async function resolvePriorityFee(
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  options: SubmitOptions
+): Promise<number> {
+  if (options.priorityFee !== 'auto') {
+    return options.priorityFee || 0;
+  }
+
+  const writable = new Map<string, PublicKey>();
+  for (const instruction of instructions) {
+    for (const key of instruction.keys) {
+      if (key.isWritable) writable.set(key.pubkey.toBase58(), key.pubkey);
+    }
+  }
+
+  try {
+    const recent = await connection.getRecentPrioritizationFees({
+      lockedWritableAccounts: [...writable.values()],
+    });
+    const fees = recent.map(entry => entry.prioritizationFee).sort((a, b) => a - b);
+    if (!fees.length) {
+      return 0;
+    }
+    const percentile = options.priorityFeePercentile ?? DEFAULT_FEE_PERCENTILE;
+    const index = Math.min(fees.length - 1, Math.floor((fees.length * percentile) / 100));
+    return Math.min(fees[index], options.maxPriorityFee ?? DEFAULT_MAX_PRIORITY_FEE);
+  } catch {
+    // Fee estimation is best-effort; submit without a priority fee
+    return 0;
+  }
+}
+
+function reached(
+  status: 'processed' | 'confirmed' | 'finalized' | null | undefined,
+  commitment: 'confirmed' | 'finalized'
+): boolean {
+  return status === 'finalized' || (commitment === 'confirmed' && status === 'confirmed');
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -1,3 +1,6 @@
+import type { Connection, PublicKey, Transaction } from '@solana/web3.js';
+import type { DNS402Emitter } from './events';
+
 /**
  * DNS402 Record parsed from TXT record
  */
@@ -15,13 +18,159 @@ export interface DNS402Record {
   /** Session TTL in seconds */
   ttl?: number;
   /** Payment model */
-  model?: 'per-request' | 'session' | 'subscription';
+  model?: PaymentModel;
   /** Callback URL for payment verification */
   callback?: string;
   /** USDC mint address (optional, defaults to mainnet USDC) */
   mint?: string;
+  /** All accepted offers, the primary price and currency first */
+  offers?: DNS402Offer[];
+  /** Record signature (base58 ed25519) */
+  signature?: string;
+  /** Public key that signed the record, if not the wallet */
+  authority?: string;
+  /**
+   * Whether the signature is valid for the wallet or authority; says
+   * nothing about whether that key is trustworthy
+   */
+  verified?: boolean;
+}
+
+/**
+ * A price in one accepted currency
+ */
+export interface DNS402Offer {
+  /** Price amount */
+  price: number;
+  /** Currency (SOL, USDC, etc.) */
+  currency: string;
+  /** Token mint address for SPL currencies */
+  mint?: string;
+}
+
+/**
+ * What a payment source (DNS record or 402 response) asks to be paid
+ */
+export interface AdvertisedOffer {
+  /** Price amount */
+  price: number;
+  /** Currency */
+  currency: string;
+  /** Recipient wallet address */
+  wallet: string;
 }
 
+/**
+ * Which source to trust when the 402 response and DNS record disagree
+ * The amount paid is always the one the 402 response quotes. Unless the
+ * response says a route price overrides the record's (DNS402-Pricing:
+ * route), that amount must be the record's price under the first two.
+ * - require-match: refuse to pay unless the wallet and currency agree
+ * - trust-dns: pay the DNS record's wallet, in a currency it accepts
+ * - trust-http: pay what the 402 response says
+ */
+export type OfferPolicy = 'require-match' | 'trust-dns' | 'trust-http';
+
+/**
+ * Signs transactions and messages for a wallet without exposing its key
+ * Compatible with wallet-adapter style browser wallets.
+ */
+export interface Signer {
+  /** Wallet public key */
+  publicKey: PublicKey;
+  /** Sign a transaction as its fee payer, returning the signed transaction */
+  signTransaction(transaction: Transaction): Promise<Transaction>;
+  /** Sign an arbitrary message (ed25519), returning the 64-byte signature */
+  signMessage(message: Uint8Array): Promise<Uint8Array>;
+}
+
+/**
+ * On-chain metadata of an SPL token mint
+ */
+export interface MintInfo {
+  /** Mint address */
+  mint: string;
+  /** Decimals of the mint */
+  decimals: number;
+  /** Owning token program (classic token program or Token-2022) */
+  programId: PublicKey;
+}
+
+/**
+ * Transaction submission settings for payments
+ */
+export interface SubmitOptions {
+  /**
+   * Priority fee in micro-lamports per compute unit, or 'auto' to estimate
+   * it from recent fees paid for the accounts the transaction writes
+   */
+  priorityFee?: number | 'auto';
+  /** Percentile of recent fees used by 'auto' (default: 75) */
+  priorityFeePercentile?: number;
+  /** Upper bound for estimated priority fees in micro-lamports (default: 1000000) */
+  maxPriorityFee?: number;
+  /** Compute unit limit to request (default: the runtime's default) */
+  computeUnitLimit?: number;
+  /** Milliseconds between status checks and rebroadcasts (default: 2000) */
+  rebroadcastInterval?: number;
+  /** Commitment at which a transaction counts as landed (default: 'confirmed') */
+  commitment?: PaymentCommitment;
+  /**
+   * Give up after this many milliseconds of unreachable RPC (default: 120000)
+   * Only RPC outages can exhaust it; an expired blockhash ends submission first.
+   */
+  timeout?: number;
+}
+
+/**
+ * One endpoint of an RPC pool
+ */
+export interface RpcEndpoint {
+  url: string;
+  /** Requests per second sent to this endpoint at most (default: unlimited) */
+  rateLimit?: number;
+}
+
+/**
+ * Settings of an RPC pool
+ */
+export interface RpcPoolOptions {
+  /** Endpoints in order of preference */
+  endpoints: Array<string | RpcEndpoint>;
+  /** Milliseconds between getHealth checks of every endpoint; 0 disables them (default: 30000) */
+  healthCheckInterval?: number;
+  /** Milliseconds a failing endpoint is passed over (default: 30000) */
+  cooldown?: number;
+  /** Milliseconds before a request to one endpoint is abandoned (default: 10000) */
+  timeout?: number;
+}
+
+/**
+ * State of one endpoint of an RPC pool
+ */
+export interface RpcEndpointStatus {
+  url: string;
+  /** False while the endpoint is passed over after failing */
+  healthy: boolean;
+  /** Requests sent to the endpoint */
+  requests: number;
+  /** Consecutive failures */
+  failures: number;
+  lastError?: string;
+}
+
+/**
+ * Definite outcome of a transaction submission
+ * - landed: the transaction reached the requested commitment
+ * - failed: the transaction was rejected or executed with an error
+ * - expired: its blockhash expired without it landing; it can never land,
+ *   so paying again with a new transaction is safe
+ */
+export type SubmissionResult =
+  | { status: 'landed'; signature: string; slot: number }
+  | { status: 'failed'; signature: string; error: string; slot?: number }
+  | { status: 'expired'; signature: string };
+
 /**
  * Payment proof to attach to requests
  */
@@ -32,6 +181,67 @@ export interface PaymentProof {
   payer: string;
   /** Timestamp of payment */
   timestamp: number;
+  /** Currency the payment was made in */
+  currency?: string;
+}
+
+/**
+ * Options for on-chain payment verification
+ */
+export interface VerifyPaymentOptions {
+  /** Wallet that must have signed the payment transaction */
+  payer?: string;
+  /** Token mint the payment must be made in (defaults to the currency's mint) */
+  mint?: string;
+  /** Accepted shortfall as a fraction of the expected amount (default: 0) */
+  tolerance?: number;
+  /** Maximum age of the transaction in seconds, measured from its block time */
+  maxAge?: number;
+  /** Commitment the transaction must have reached (default: 'confirmed') */
+  commitment?: PaymentCommitment;
+  /** Reuse cached and in-flight lookups of the same transaction (default: true) */
+  cache?: boolean;
+}
+
+/**
+ * Commitment levels accepted for payment verification
+ */
+export type PaymentCommitment = 'confirmed' | 'finalized';
+
+/**
+ * Why a payment failed verification
+ */
+export type PaymentRejectionReason =
+  | 'not_found'
+  | 'not_finalized'
+  | 'stale'
+  | 'transaction_failed'
+  | 'payer_mismatch'
+  | 'recipient_not_credited'
+  | 'wrong_mint'
+  | 'insufficient_amount'
+  | 'rpc_error';
+
+/**
+ * Result of on-chain payment verification
+ */
+export interface PaymentVerification {
+  /** Whether the payment satisfies the requirements */
+  valid: boolean;
+  /** Why the payment was rejected */
+  reason?: PaymentRejectionReason;
+  /** Human-readable detail */
+  message?: string;
+  /** Amount credited to the recipient, in base units */
+  received?: string;
+  /** Amount required, in base units */
+  expected?: string;
+  /** Slot the transaction landed in */
+  slot?: number;
+  /** Block time of the transaction (unix seconds) */
+  blockTime?: number;
+  /** Whether the transaction came from the cache or a lookup already in flight */
+  cached?: boolean;
 }
 
 /**
@@ -42,30 +252,242 @@ export interface DNS402Session {
   domain: string;
   /** Session token (if using session-based auth) */
   token?: string;
+  /** Price scope the session was bought for, as the 402 response named it */
+  scope?: string;
   /** Payment proof */
   proof: PaymentProof;
   /** When session expires */
   expiresAt: number;
+  /** Server challenge this payment is bound to */
+  challenge?: {
+    /** Nonce issued in the 402 response */
+    nonce: string;
+    /** Payer's signature over the nonce and payment signature (base58) */
+    signature: string;
+  };
 }
 
 /**
  * Client configuration
  */
 export interface DNS402ClientConfig {
-  /** Solana wallet keypair */
-  keypair: Uint8Array;
-  /** Solana RPC endpoint */
-  rpcEndpoint?: string;
+  /** Solana wallet keypair (secret key); ignored when signer is given */
+  keypair?: Uint8Array;
+  /** Signer for payments and challenges, e.g. a remote or browser wallet */
+  signer?: Signer;
+  /** Solana RPC endpoint, or several to pool with failover */
+  rpcEndpoint?: string | Array<string | RpcEndpoint>;
+  /** Connection to use instead of one for rpcEndpoint, e.g. a FakeLedger in tests */
+  connection?: Connection;
   /** Auto-pay configuration */
   autoPay?: {
     enabled: boolean;
     maxAmount: number;
     currency: string;
+    /** Other currencies to pay in, in order of preference, each with its own limit */
+    alternatives?: Array<{ currency: string; maxAmount: number }>;
   };
   /** Cache sessions in memory */
   sessionCache?: boolean;
   /** Custom DNS resolver */
   dnsResolver?: (domain: string) => Promise<string | null>;
+  /** TXT resolver backend (default: cached system resolver, or DoH outside Node) */
+  resolver?: DNS402Resolver;
+  /**
+   * Only trust records the resolver validated with DNSSEC (AD bit); needs a
+   * resolver that reports it, such as createDoHResolver
+   */
+  requireDNSSEC?: boolean;
+  /** How to reconcile the 402 response with the DNS record (default: 'require-match') */
+  offerPolicy?: OfferPolicy;
+  /** Refuse DNS records that are unsigned, badly signed or signed by an unpinned key */
+  requireSignedRecords?: boolean;
+  /**
+   * Keys trusted to sign records, required with requireSignedRecords;
+   * list a recipient wallet to accept records it signs itself
+   */
+  trustedAuthorities?: string[];
+  /** Spending rules checked before every payment */
+  policy?: SpendingPolicyConfig;
+  /** Record of every discovery and payment */
+  ledger?: PaymentLedger;
+  /** Priority fees and rebroadcasting for payment transactions */
+  submission?: SubmitOptions;
+  /** Delivery of payment notifications to the record's callback URL */
+  callback?: {
+    /** Notify callbacks advertised by records (default: true) */
+    enabled?: boolean;
+    /** Delivery attempts (default: 3) */
+    attempts?: number;
+    /** Timeout per attempt in milliseconds (default: 5000) */
+    timeout?: number;
+  };
+  /** Emitter for client events, e.g. one shared by several clients (default: a new one) */
+  events?: DNS402Emitter<ClientEvents>;
+}
+
+/**
+ * Kinds of ledger entries
+ */
+export type LedgerEntryType =
+  | 'discovery'
+  | 'payment_attempt'
+  | 'payment_success'
+  | 'payment_failure'
+  | 'payment_unknown';
+
+/**
+ * One ledger entry
+ */
+export interface LedgerEntry {
+  /** What happened */
+  type: LedgerEntryType;
+  /** When it happened */
+  timestamp: number;
+  /** Domain involved */
+  domain: string;
+  /** URL being fetched, if the payment was triggered by fetch() */
+  url?: string;
+  /** Links the attempt of a payment with its outcome */
+  paymentId?: string;
+  /** Record discovered, or the record paid against */
+  record?: DNS402Record | null;
+  /** Price paid */
+  price?: number;
+  /** Currency paid in */
+  currency?: string;
+  /** Recipient wallet address */
+  wallet?: string;
+  /** Payer wallet address */
+  payer?: string;
+  /** Transaction signature, for successful payments */
+  signature?: string;
+  /** Error message, for failed payments and those of unknown outcome */
+  error?: string;
+}
+
+/**
+ * Ledger query filter; from and to are inclusive timestamps
+ */
+export interface LedgerQuery {
+  domain?: string;
+  type?: LedgerEntryType;
+  from?: number;
+  to?: number;
+}
+
+/**
+ * Persistent record of client payments
+ */
+export interface PaymentLedger {
+  append(entry: LedgerEntry): Promise<void>;
+  query(filter?: LedgerQuery): Promise<LedgerEntry[]>;
+}
+
+/**
+ * A payment about to be made, as seen by the spending policy
+ */
+export interface PaymentIntent {
+  /** Domain being paid for */
+  domain: string;
+  /** Price amount */
+  price: number;
+  /** Currency */
+  currency: string;
+  /** Recipient wallet address */
+  wallet: string;
+  /** Record the payment is made against */
+  record: DNS402Record;
+}
+
+/**
+ * Rolling spending budget
+ */
+export interface SpendingBudget {
+  /** Domain the budget applies to (default: all domains combined) */
+  domain?: string;
+  /** Currency the budget is counted in */
+  currency: string;
+  /** Maximum total within the window */
+  amount: number;
+  /** Rolling window: 'hour', 'day' or a number of seconds */
+  window: 'hour' | 'day' | number;
+}
+
+/**
+ * Client spending policy
+ * Domain patterns match exactly, or `*.example.com` for any subdomain.
+ */
+export interface SpendingPolicyConfig {
+  /** Only pay these domains (default: any) */
+  allow?: string[];
+  /** Never pay these domains */
+  deny?: string[];
+  /** Maximum single payment per currency */
+  maxPerPayment?: Record<string, number>;
+  /** Rolling budgets, global or per domain */
+  budgets?: SpendingBudget[];
+  /** Final approval hook; resolve false to refuse the payment */
+  approve?: (payment: PaymentIntent) => boolean | Promise<boolean>;
+}
+
+/**
+ * Current state of a spending budget
+ */
+export interface BudgetStatus {
+  budget: SpendingBudget;
+  /** Amount spent within the current window */
+  spent: number;
+  /** Amount left within the current window */
+  remaining: number;
+}
+
+/**
+ * Events emitted by DNS402Client, by name
+ * Durations are in milliseconds.
+ */
+export interface ClientEvents {
+  /** A DNS402 record was looked up */
+  discovery: { domain: string; record: DNS402Record | null; duration: number };
+  /** A request was answered with 402 */
+  payment_required: { url: string; domain: string; price?: number; currency?: string };
+  /** A payment transaction landed */
+  payment_sent: {
+    domain: string;
+    signature: string;
+    price: number;
+    currency: string;
+    duration: number;
+  };
+  /** A payment could not be made */
+  payment_failed: { domain: string; price: number; currency: string; message: string };
+  /** A payment notification could not be delivered */
+  callback_failed: { domain: string; url: string; message: string };
+  /** A cache was consulted */
+  cache: { cache: string; hit: boolean };
+  /** An RPC call failed */
+  rpc_error: { operation: string; message: string };
+}
+
+/**
+ * Result of a TXT lookup
+ */
+export interface TxtLookup {
+  /** TXT records, each joined from its character-string chunks */
+  records: string[];
+  /** How long the answer may be cached, in seconds */
+  ttl: number;
+  /** Whether the resolver validated the answer with DNSSEC (AD bit) */
+  authenticated?: boolean;
+}
+
+/**
+ * Backend that resolves TXT records
+ */
+export interface DNS402Resolver {
+  /** Whether lookups report DNSSEC validation in `authenticated`; needed for requireDNSSEC */
+  reportsDNSSEC?: boolean;
+  resolveTxt(name: string): Promise<TxtLookup>;
 }
 
 /**
@@ -74,20 +496,306 @@ export interface DNS402ClientConfig {
 export interface DNS402ServerConfig {
   /** Recipient wallet address */
   wallet: string;
-  /** Price per request/session */
+  /** Price per request/session; the deposit amount for `prepaid` */
   price: number;
   /** Currency */
   currency: SupportedCurrency;
-  /** Session TTL in seconds (default: 3600) */
+  /** Payment model (default: 'session') */
+  model?: PaymentModel;
+  /**
+   * Session TTL in seconds (default: 3600); the billing period for
+   * `subscription`, and how long a `prepaid` account token lasts
+   */
   sessionTTL?: number;
-  /** Solana RPC endpoint for verification */
-  rpcEndpoint?: string;
+  /**
+   * Amount each request debits from a prepaid balance, in the paywall
+   * currency; a function can price each request. Required for `prepaid`.
+   */
+  cost?: number | ((request: PricingRequest) => number | Promise<number>);
+  /** Store of prepaid balances (default: in-memory) */
+  balanceStore?: BalanceStore;
+  /** Limits on what one paid session may use; an exhausted session is offered a fresh 402 */
+  quota?: SessionQuota;
+  /** Requests unpaid callers may make before they get a 402 */
+  freeTier?: FreeTier;
+  /** Solana RPC endpoint for verification, or several to pool with failover */
+  rpcEndpoint?: string | Array<string | RpcEndpoint>;
+  /** Connection to use instead of one for rpcEndpoint, e.g. a FakeLedger in tests */
+  connection?: Connection;
   /** Payment verification method */
   verify?: 'onchain' | 'signature';
   /** Custom token mint address (for USDC or custom tokens) */
   mint?: string;
-  /** Callback on successful payment */
+  /** Callback on successful payment; errors it throws are ignored */
   onPayment?: (payment: PaymentProof) => void | Promise<void>;
+  /** Emitter for paywall events, e.g. one shared by several paywalls (default: a new one) */
+  events?: DNS402Emitter<PaywallEvents>;
+  /** Maximum age of a payment proof in seconds, from its block time (default: 86400) */
+  maxProofAge?: number;
+  /** Commitment a payment must reach before access is granted (default: 'confirmed') */
+  commitment?: PaymentCommitment;
+  /**
+   * Accept 'confirmed' payments right away and check for finalization in
+   * the background, revoking the session if the transaction is dropped
+   */
+  finalityGrace?: boolean;
+  /** Registry of redeemed payment signatures (default: in-memory) */
+  replayStore?: ReplayStore;
+  /** How long a 402 challenge nonce stays valid in seconds (default: 300); each is used once */
+  challengeTTL?: number;
+  /**
+   * HMAC secret for session tokens and challenge nonces; share it across
+   * instances (default: random per process)
+   */
+  sessionSecret?: string;
+  /** Accepted shortfall as a fraction of the price, e.g. 0.01 for 1% (default: 0) */
+  paymentTolerance?: number;
+  /** Per-route pricing; requests that match nothing use price and currency */
+  pricing?: PriceRoute[] | PricingFunction;
+  /** Additional offers accepted for the default price, e.g. the same price in SOL */
+  offers?: DNS402Offer[];
+  /**
+   * Path (relative to where the paywall is mounted) that accepts payment
+   * notifications; advertise its URL with the record's `callback`
+   */
+  callbackPath?: string;
+}
+
+/**
+ * Per-session usage limits, counted per payment in each server process
+ */
+export interface SessionQuota {
+  /** Requests one session may make in total */
+  maxRequests?: number;
+  /** Sustained requests per second (token bucket refill rate) */
+  rate?: number;
+  /** Requests that may be made in a burst before `rate` applies (default: rate, at least 1) */
+  burst?: number;
+  /** Response body bytes one session may receive in total */
+  maxBytes?: number;
+}
+
+/**
+ * Free allowance for callers that have not paid
+ */
+export interface FreeTier {
+  /** Requests allowed per caller and window */
+  requests: number;
+  /** Window length in seconds (default: 86400) */
+  window?: number;
+  /** Identify the caller (default: client IP address; callers without a key get no allowance) */
+  key?: (request: PaywallRequest) => string | undefined;
+}
+
+/**
+ * Request details available to pricing
+ */
+export interface PricingRequest {
+  /** HTTP method */
+  method: string;
+  /** Path relative to where the middleware is mounted */
+  path: string;
+}
+
+/**
+ * Price resolved for a request
+ */
+export interface PriceQuote {
+  /** Price amount */
+  price: number;
+  /** Currency (defaults to the middleware currency) */
+  currency?: SupportedCurrency;
+  /** Custom token mint address */
+  mint?: string;
+  /** Scope a session bought at this price unlocks (default: price and currency) */
+  scope?: string;
+  /** Additional offers accepted instead of this price */
+  offers?: DNS402Offer[];
+}
+
+/**
+ * Route table entry for per-route pricing
+ */
+export interface PriceRoute extends PriceQuote {
+  /** HTTP method (default: any) */
+  method?: string;
+  /** Path pattern: `:name` matches one segment, `*` any remainder; or a RegExp */
+  path: string | RegExp;
+}
+
+/**
+ * Dynamic pricing hook; return null to use the default price
+ */
+export type PricingFunction = (
+  req: PricingRequest
+) => PriceQuote | null | Promise<PriceQuote | null>;
+
+/**
+ * Claims carried by a signed session token
+ */
+export interface SessionTokenClaims {
+  /** Verified payer wallet address */
+  payer: string;
+  /** Domain the session was bought for */
+  domain: string;
+  /** Resource scope the session unlocks */
+  scope: string;
+  /** Payment transaction signature */
+  signature: string;
+  /** When the session expires */
+  expiresAt: number;
+}
+
+/**
+ * Registry of payment signatures that have already been redeemed
+ * The paywall also keeps used challenge nonces, admitted and notified
+ * payments and revoked payments here, under prefixed keys, so instances
+ * sharing a store share all of them.
+ */
+export interface ReplayStore {
+  /** Mark a signature as consumed until expiresAt; resolves false if it already was */
+  claim(signature: string, expiresAt: number): Promise<boolean>;
+  /** Whether a signature is currently claimed */
+  has(signature: string): Promise<boolean>;
+  /** Forget a signature, e.g. when verification of a claimed proof fails */
+  release(signature: string): Promise<void>;
+}
+
+/**
+ * Store of prepaid balances, keyed by payer wallet
+ * Amounts are in the paywall currency. Implementations must apply debits
+ * atomically so concurrent requests cannot overdraw a balance.
+ */
+export interface BalanceStore {
+  /** Current balance of an account (0 if it has none) */
+  get(account: string): Promise<number>;
+  /** Add to a balance; resolves the new balance */
+  credit(account: string, amount: number): Promise<number>;
+  /** Subtract from a balance if it covers the amount; resolves whether it did and the balance after */
+  debit(account: string, amount: number): Promise<{ debited: boolean; balance: number }>;
+}
+
+/**
+ * Payment notification a client POSTs to a record's callback URL
+ */
+export interface PaymentNotification {
+  /** Domain the payment was made for */
+  domain: string;
+  /** HTTP method of the request the payment was made for */
+  method: string;
+  /** Path of the request the payment was made for, which sets its price */
+  path: string;
+  /** Payment transaction signature */
+  signature: string;
+  /** Payer wallet address */
+  payer: string;
+  /** Currency the payment was made in */
+  currency: string;
+  /** When the notification was signed (ms since epoch) */
+  timestamp: number;
+  /** Payer's base58 ed25519 signature over the notification */
+  auth: string;
+}
+
+/**
+ * Transport-neutral view of an incoming request, built by server adapters
+ */
+export interface PaywallRequest {
+  /** HTTP method */
+  method: string;
+  /** Request path without the query string */
+  path: string;
+  /** Path the paywall is mounted at; price routes match below it (default: '/') */
+  basePath?: string;
+  /** Host name without port */
+  hostname: string;
+  /** Client IP address, if the adapter knows it */
+  ip?: string;
+  /** Read a request header by lowercase name */
+  header(name: string): string | undefined;
+  /** Read the parsed JSON body; only called for payment callbacks */
+  body?(): Promise<unknown>;
+}
+
+/**
+ * What an adapter should do with a request
+ * - allow: pass the request on, adding `headers` to the response, and
+ *   report the response body size to `meter` once sent if it is given
+ * - respond: answer with `status`, `headers` and the JSON `body`
+ */
+export type PaywallDecision =
+  | {
+      action: 'allow';
+      headers: Record<string, string>;
+      payment?: PaymentProof;
+      meter?: (bytes: number) => void;
+    }
+  | {
+      action: 'respond';
+      status: number;
+      headers: Record<string, string>;
+      body: Record<string, unknown>;
+    };
+
+/**
+ * Paywall created by createPaywall, with the emitter of its events
+ */
+export type Paywall = ((request: PaywallRequest) => Promise<PaywallDecision>) & {
+  events: DNS402Emitter<PaywallEvents>;
+};
+
+/**
+ * Why a request was answered with 402
+ */
+export type PaymentRequiredReason =
+  | 'unpaid'
+  | 'challenge_expired'
+  | 'not_finalized'
+  | 'insufficient_balance'
+  | 'quota_exhausted';
+
+/**
+ * Events emitted by a paywall, by name
+ * Durations are in milliseconds.
+ */
+export interface PaywallEvents {
+  /** A request was answered with 402 */
+  payment_required: {
+    method: string;
+    path: string;
+    price: number;
+    currency: string;
+    reason: PaymentRequiredReason;
+  };
+  /** A request was let through on a valid session token */
+  session_hit: { payer: string; path: string; scope: string };
+  /** An unpaid request was let through on the free tier */
+  free_request: { path: string };
+  /** A session went over its rate limit */
+  rate_limited: { payer: string; path: string };
+  /** A payment was verified on chain */
+  payment_verified: {
+    signature: string;
+    payer: string;
+    price: number;
+    currency: string;
+    duration: number;
+  };
+  /** A payment proof was refused */
+  payment_rejected: {
+    signature: string;
+    payer: string;
+    currency: string;
+    reason: PaymentRejectionReason | 'replayed' | 'invalid_challenge';
+    message: string;
+    duration?: number;
+  };
+  /** A payment accepted while only confirmed never finalized */
+  payment_revoked: { signature: string; payer: string };
+  /** A cache was consulted */
+  cache: { cache: string; hit: boolean };
+  /** An RPC call failed */
+  rpc_error: { operation: string; message: string };
 }
 
 /**
@@ -100,9 +808,19 @@ export const DNS402_HEADERS = {
   NETWORK: 'DNS402-Network',
   WALLET: 'DNS402-Wallet',
   SESSION_TTL: 'DNS402-Session-TTL',
+  MODEL: 'DNS402-Model',
   PROOF: 'X-DNS402-Proof',
   PAYER: 'X-DNS402-Payer',
   TOKEN: 'X-DNS402-Token',
+  PAYMENT_CURRENCY: 'X-DNS402-Currency',
+  CHALLENGE: 'DNS402-Challenge',
+  REASON: 'DNS402-Reason',
+  COMMITMENT: 'DNS402-Commitment',
+  PRICING: 'DNS402-Pricing',
+  SCOPE: 'DNS402-Scope',
+  NONCE: 'X-DNS402-Nonce',
+  SIGNATURE: 'X-DNS402-Signature',
+  BALANCE: 'DNS402-Balance',
 } as const;
 
 /**
@@ -127,6 +845,15 @@ export const TOKEN_DECIMALS: Record<string, number> = {
   DNS402: 6,
 } as const;
 
+/**
+ * Payment models
+ * - per-request: every request needs a fresh payment
+ * - session: one payment unlocks access for the session TTL
+ * - subscription: one payment unlocks a full billing period from the time it is made
+ * - prepaid: payments are deposits into a balance that each request draws from
+ */
+export type PaymentModel = 'per-request' | 'session' | 'subscription' | 'prepaid';
+
 /**
  * Supported currencies
  */
@@ -1,10 +1,51 @@
 // Core exports
 export {
   DNS402Record,
+  DNS402Offer,
   DNS402Session,
   DNS402ClientConfig,
   DNS402ServerConfig,
   PaymentProof,
+  PaymentModel,
+  ReplayStore,
+  BalanceStore,
+  SessionQuota,
+  FreeTier,
+  SessionTokenClaims,
+  VerifyPaymentOptions,
+  PaymentVerification,
+  PaymentRejectionReason,
+  PaymentCommitment,
+  PriceQuote,
+  PriceRoute,
+  PricingFunction,
+  PricingRequest,
+  DNS402Resolver,
+  TxtLookup,
+  AdvertisedOffer,
+  OfferPolicy,
+  PaymentIntent,
+  SpendingBudget,
+  SpendingPolicyConfig,
+  BudgetStatus,
+  LedgerEntry,
+  LedgerEntryType,
+  LedgerQuery,
+  PaymentLedger,
+  Signer,
+  MintInfo,
+  SubmitOptions,
+  SubmissionResult,
+  RpcEndpoint,
+  RpcPoolOptions,
+  RpcEndpointStatus,
+  PaywallRequest,
+  PaywallDecision,
+  Paywall,
+  PaywallEvents,
+  PaymentRequiredReason,
+  ClientEvents,
+  PaymentNotification,
   DNS402_HEADERS,
   USDC_MINTS,
 } from './core/types';
@@ -16,16 +57,74 @@ export {
   generateDNSRecordString,
 } from './core/dns';
 
+export {
+  createSystemResolver,
+  createDoHResolver,
+  createCachingResolver,
+  getDefaultResolver,
+} from './core/resolver';
+
+export { sessionExpiresAt } from './core/model';
+
+export { DNS402Emitter } from './core/events';
+
+export { KeypairSigner, RemoteSigner, toSigner } from './core/signer';
+
+export { submitTransaction, SubmissionError } from './core/submit';
+
+export { RpcPool } from './core/rpc';
+
 export {
   createConnection,
   sendSOLPayment,
   sendUSDCPayment,
   sendPayment,
   verifyPayment,
+  waitForFinality,
+  getBalance,
+  getCurrencyMint,
+  getMintInfo,
+  toBaseUnits,
 } from './core/solana';
 
 // Client exports
 export { DNS402Client } from './client/client';
+export {
+  OfferMismatchError,
+  RecordSignatureError,
+  PolicyViolationError,
+} from './client/errors';
+export { SpendingPolicy } from './client/policy';
+export {
+  wrapFetch,
+  attachAxios,
+  dns402Interceptor,
+  createDispatcher,
+  AxiosInstanceLike,
+  AxiosRequestConfigLike,
+  DispatcherLike,
+  DispatchHandlerLike,
+  DispatchInterceptorLike,
+  DispatchLike,
+  DispatchOptionsLike,
+} from './client/integrations';
+export { MemoryLedger, FileLedger, exportLedger } from './client/ledger';
 
 // Server exports
 export { dns402, createDNSRecord, createFullDNSRecord } from './server/middleware';
+export { createPaywall } from './server/paywall';
+export {
+  dns402Fastify,
+  dns402Koa,
+  dns402Hono,
+  dns402Node,
+  dns402Fetch,
+  meterResponse,
+  AdapterOptions,
+} from './server/adapters';
+export { MemoryReplayStore, FileReplayStore } from './server/replay';
+export { MemoryBalanceStore, FileBalanceStore } from './server/balance';
+export { createSessionToken, verifySessionToken } from './server/token';
+
+// Metrics exports
+export { DNS402Metrics, MetricsOptions } from './metrics';
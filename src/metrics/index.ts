@@ -0,0 +1,3 @@
+export { DNS402Metrics } from './metrics';
+export type { MetricsOptions } from './metrics';
+export { Counter, Histogram } from './prometheus';
@@ -0,0 +1,178 @@
+import type { ClientEvents, PaywallEvents } from '../core/types';
+import type { DNS402Emitter } from '../core/events';
+import { Counter, Histogram, render } from './prometheus';
+
+export interface MetricsOptions {
+  /** Prefix of every metric name (default: 'dns402') */
+  prefix?: string;
+  /** Latency histogram buckets in seconds */
+  buckets?: number[];
+}
+
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+/**
+ * Prometheus metrics fed by paywall and client events
+ *
+ *   const metrics = new DNS402Metrics();
+ *   const paywall = dns402(config);
+ *   metrics.observePaywall(paywall);
+ *   app.get('/metrics', (req, res) => res.type(metrics.contentType).send(metrics.render()));
+ */
+export class DNS402Metrics {
+  /** Content type of render()'s output */
+  readonly contentType = 'text/plain; version=0.0.4; charset=utf-8';
+
+  private paymentsRequired: Counter;
+  private sessionHits: Counter;
+  private freeRequests: Counter;
+  private rateLimited: Counter;
+  private paymentsVerified: Counter;
+  private paymentsRejected: Counter;
+  private paymentsRevoked: Counter;
+  private revenue: Counter;
+  private verificationDuration: Histogram;
+  private rpcErrors: Counter;
+  private cacheRequests: Counter;
+  private clientPayments: Counter;
+  private clientSpent: Counter;
+  private clientPaymentDuration: Histogram;
+  private callbackFailures: Counter;
+
+  constructor(options: MetricsOptions = {}) {
+    const prefix = options.prefix ?? 'dns402';
+    const buckets = options.buckets || DEFAULT_BUCKETS;
+
+    this.paymentsRequired = new Counter(
+      `${prefix}_payment_required_total`,
+      'Requests answered with 402 Payment Required, by reason'
+    );
+    this.sessionHits = new Counter(
+      `${prefix}_session_hits_total`,
+      'Requests let through on a valid session token'
+    );
+    this.freeRequests = new Counter(
+      `${prefix}_free_requests_total`,
+      'Unpaid requests let through on the free tier'
+    );
+    this.rateLimited = new Counter(
+      `${prefix}_rate_limited_total`,
+      'Requests refused for going over a session rate limit'
+    );
+    this.paymentsVerified = new Counter(
+      `${prefix}_payments_verified_total`,
+      'Payments verified on chain, by currency'
+    );
+    this.paymentsRejected = new Counter(
+      `${prefix}_payments_rejected_total`,
+      'Payment proofs refused, by reason'
+    );
+    this.paymentsRevoked = new Counter(
+      `${prefix}_payments_revoked_total`,
+      'Payments accepted while confirmed that never finalized'
+    );
+    this.revenue = new Counter(`${prefix}_revenue_total`, 'Amount of verified payments, by currency');
+    this.verificationDuration = new Histogram(
+      `${prefix}_verification_duration_seconds`,
+      'Time taken to verify a payment on chain, by result',
+      buckets
+    );
+    this.rpcErrors = new Counter(`${prefix}_rpc_errors_total`, 'Failed RPC calls, by operation');
+    this.cacheRequests = new Counter(
+      `${prefix}_cache_requests_total`,
+      'Cache lookups, by cache and result (hit or miss)'
+    );
+    this.clientPayments = new Counter(
+      `${prefix}_client_payments_total`,
+      'Payments made by clients, by currency and result'
+    );
+    this.clientSpent = new Counter(`${prefix}_client_spent_total`, 'Amount paid by clients, by currency');
+    this.clientPaymentDuration = new Histogram(
+      `${prefix}_client_payment_duration_seconds`,
+      'Time taken to send a payment until it landed',
+      buckets
+    );
+    this.callbackFailures = new Counter(
+      `${prefix}_client_callback_failures_total`,
+      'Payment notifications that could not be delivered'
+    );
+  }
+
+  /**
+   * Count the events of a paywall, e.g. the middleware returned by dns402()
+   * Returns a function that stops observing it.
+   */
+  observePaywall(source: { events: DNS402Emitter<PaywallEvents> }): () => void {
+    const { events } = source;
+    const subscriptions = [
+      events.on('payment_required', e => this.paymentsRequired.inc({ reason: e.reason })),
+      events.on('session_hit', () => this.sessionHits.inc()),
+      events.on('free_request', () => this.freeRequests.inc()),
+      events.on('rate_limited', () => this.rateLimited.inc()),
+      events.on('payment_verified', e => {
+        this.paymentsVerified.inc({ currency: e.currency });
+        this.revenue.inc({ currency: e.currency }, e.price);
+        this.verificationDuration.observe(e.duration / 1000, { result: 'valid' });
+      }),
+      events.on('payment_rejected', e => {
+        this.paymentsRejected.inc({ reason: e.reason });
+        if (e.duration !== undefined) {
+          this.verificationDuration.observe(e.duration / 1000, { result: 'invalid' });
+        }
+      }),
+      events.on('payment_revoked', () => this.paymentsRevoked.inc()),
+      events.on('cache', e =>
+        this.cacheRequests.inc({ cache: e.cache, result: e.hit ? 'hit' : 'miss' })
+      ),
+      events.on('rpc_error', e => this.rpcErrors.inc({ operation: e.operation })),
+    ];
+    return () => subscriptions.forEach(off => off());
+  }
+
+  /**
+   * Count the events of a DNS402Client
+   * Returns a function that stops observing it.
+   */
+  observeClient(source: { events: DNS402Emitter<ClientEvents> }): () => void {
+    const { events } = source;
+    const subscriptions = [
+      events.on('payment_sent', e => {
+        this.clientPayments.inc({ currency: e.currency, result: 'success' });
+        this.clientSpent.inc({ currency: e.currency }, e.price);
+        this.clientPaymentDuration.observe(e.duration / 1000);
+      }),
+      events.on('payment_failed', e =>
+        this.clientPayments.inc({ currency: e.currency, result: 'failure' })
+      ),
+      events.on('callback_failed', () => this.callbackFailures.inc()),
+      events.on('cache', e =>
+        this.cacheRequests.inc({ cache: e.cache, result: e.hit ? 'hit' : 'miss' })
+      ),
+      events.on('rpc_error', e => this.rpcErrors.inc({ operation: e.operation })),
+    ];
+    return () => subscriptions.forEach(off => off());
+  }
+
+  /**
+   * All metrics in the Prometheus text exposition format
+   */
+  render(): string {
+    return render([
+      this.paymentsRequired,
+      this.sessionHits,
+      this.freeRequests,
+      this.rateLimited,
+      this.paymentsVerified,
+      this.paymentsRejected,
+      this.paymentsRevoked,
+      this.revenue,
+      this.verificationDuration,
+      this.rpcErrors,
+      this.cacheRequests,
+      this.clientPayments,
+      this.clientSpent,
+      this.clientPaymentDuration,
+      this.callbackFailures,
+    ]);
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Counters and histograms rendered in the Prometheus text exposition format
+ * Only what the DNS402 metrics need; no dependency on a client library.
+ */
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string;
+}
+
+/**
+ * Monotonic counter, optionally split by labels
+ */
+export class Counter implements Metric {
+  private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+  constructor(
+    readonly name: string,
+    private help: string
+  ) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) || { labels, value: 0 };
+    entry.value += value;
+    this.values.set(key, entry);
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.value || 0;
+  }
+
+  render(): string {
+    const lines = header(this.name, this.help, 'counter');
+    if (!this.values.size) {
+      lines.push(`${this.name} 0`);
+    }
+    for (const { labels, value } of this.values.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+/**
+ * Histogram with cumulative buckets, optionally split by labels
+ */
+export class Histogram implements Metric {
+  private series: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }> =
+    new Map();
+
+  constructor(
+    readonly name: string,
+    private help: string,
+    private buckets: number[]
+  ) {
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  observe(value: number, labels: Labels = {}): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) series.counts[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  render(): string {
+    const lines = header(this.name, this.help, 'histogram');
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines.join('\n');
+  }
+}
+
+/**
+ * Render metrics as one exposition document
+ */
+export function render(metrics: Metric[]): string {
+  return metrics.map(metric => metric.render()).join('\n') + '\n';
+}
+
+function header(name: string, help: string, type: string): string[] {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+}
+
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) =>
+      `${name}="${value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`
+  );
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
@@ -0,0 +1,358 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { DNS402ServerConfig, Paywall, PaywallDecision } from '../core/types';
+import { createPaywall } from './paywall';
+
+/**
+ * Adapters for frameworks other than Express
+ * Each is typed against the few members it uses rather than the framework's
+ * own types, so none of the frameworks is a dependency.
+ */
+
+export interface AdapterOptions {
+  /** Path prefix the paywall is mounted under; price routes match below it */
+  basePath?: string;
+}
+
+type HeaderMap = Record<string, string | string[] | undefined>;
+
+/** Subset of a Fastify request used by the adapter */
+export interface FastifyRequestLike {
+  method: string;
+  url: string;
+  hostname: string;
+  headers: HeaderMap;
+  body?: unknown;
+  ip?: string;
+}
+
+/** Subset of a Fastify reply used by the adapter */
+export interface FastifyReplyLike {
+  code(statusCode: number): FastifyReplyLike;
+  header(name: string, value: string): FastifyReplyLike;
+  send(payload?: unknown): FastifyReplyLike;
+  raw?: ServerResponse;
+}
+
+/**
+ * Fastify preHandler hook
+ * `fastify.addHook('preHandler', dns402Fastify(config))`
+ */
+export function dns402Fastify(
+  config: DNS402ServerConfig,
+  options: AdapterOptions = {}
+): ((request: FastifyRequestLike, reply: FastifyReplyLike) => Promise<unknown>) &
+  Pick<Paywall, 'events'> {
+  const paywall = createPaywall(config);
+
+  const hook = async (request: FastifyRequestLike, reply: FastifyReplyLike) => {
+    const decision = await paywall({
+      method: request.method,
+      path: stripQuery(request.url),
+      basePath: options.basePath,
+      hostname: stripPort(request.hostname),
+      ip: request.ip,
+      header: readHeader(request.headers),
+      body: async () => request.body,
+    });
+
+    for (const [name, value] of Object.entries(decision.headers)) {
+      reply.header(name, value);
+    }
+    if (decision.action === 'respond') {
+      return reply.code(decision.status).send(decision.body);
+    }
+    if (decision.meter && reply.raw) {
+      meterResponse(reply.raw, decision.meter);
+    }
+  };
+
+  return Object.assign(hook, { events: paywall.events });
+}
+
+/** Subset of a Koa context used by the adapter */
+export interface KoaContextLike {
+  method: string;
+  path: string;
+  hostname: string;
+  status: number;
+  body: unknown;
+  /** koa-bodyparser and similar put the parsed body here */
+  request: { body?: unknown };
+  req: IncomingMessage;
+  res?: ServerResponse;
+  ip?: string;
+  get(field: string): string;
+  set(field: string, value: string): void;
+}
+
+/**
+ * Koa middleware
+ * `app.use(dns402Koa(config))`
+ */
+export function dns402Koa(
+  config: DNS402ServerConfig,
+  options: AdapterOptions = {}
+): ((ctx: KoaContextLike, next: () => Promise<unknown>) => Promise<unknown>) &
+  Pick<Paywall, 'events'> {
+  const paywall = createPaywall(config);
+
+  const middleware = async (ctx: KoaContextLike, next: () => Promise<unknown>) => {
+    const decision = await paywall({
+      method: ctx.method,
+      path: ctx.path,
+      basePath: options.basePath,
+      hostname: ctx.hostname,
+      ip: ctx.ip,
+      // Koa answers '' for missing headers
+      header: name => ctx.get(name) || undefined,
+      body: async () => ctx.request.body ?? readJsonBody(ctx.req),
+    });
+
+    for (const [name, value] of Object.entries(decision.headers)) {
+      ctx.set(name, value);
+    }
+    if (decision.action === 'allow') {
+      if (decision.meter && ctx.res) {
+        meterResponse(ctx.res, decision.meter);
+      }
+      return next();
+    }
+    ctx.status = decision.status;
+    ctx.body = decision.body;
+  };
+
+  return Object.assign(middleware, { events: paywall.events });
+}
+
+/** Subset of a Hono context used by the adapter */
+export interface HonoContextLike {
+  req: {
+    method: string;
+    path: string;
+    url: string;
+    header(name: string): string | undefined;
+    json(): Promise<unknown>;
+  };
+  header(name: string, value: string): void;
+  json(body: unknown, status?: number): Response;
+  /** Response set by the handlers, replaced to meter its body */
+  res?: Response;
+}
+
+/**
+ * Hono middleware
+ * `app.use('/api/*', dns402Hono(config, { basePath: '/api' }))`
+ */
+export function dns402Hono(
+  config: DNS402ServerConfig,
+  options: AdapterOptions = {}
+): ((c: HonoContextLike, next: () => Promise<void>) => Promise<Response | void>) &
+  Pick<Paywall, 'events'> {
+  const paywall = createPaywall(config);
+
+  const middleware = async (c: HonoContextLike, next: () => Promise<void>) => {
+    const decision = await paywall({
+      method: c.req.method,
+      path: c.req.path,
+      basePath: options.basePath,
+      hostname: new URL(c.req.url).hostname,
+      header: name => c.req.header(name),
+      body: () => c.req.json(),
+    });
+
+    for (const [name, value] of Object.entries(decision.headers)) {
+      c.header(name, value);
+    }
+    if (decision.action === 'allow') {
+      await next();
+      if (decision.meter && c.res?.body) {
+        c.res = new Response(c.res.body.pipeThrough(countBytes(decision.meter)), c.res);
+      }
+      return;
+    }
+    return c.json(decision.body, decision.status);
+  };
+
+  return Object.assign(middleware, { events: paywall.events });
+}
+
+/**
+ * Guard for Node's `http` module
+ * Resolves true when the request may be handled; otherwise the response has
+ * already been sent.
+ *
+ *   http.createServer(async (req, res) => {
+ *     if (!(await paywall(req, res))) return;
+ *     ...
+ *   });
+ */
+export function dns402Node(
+  config: DNS402ServerConfig,
+  options: AdapterOptions = {}
+): ((req: IncomingMessage, res: ServerResponse) => Promise<boolean>) & Pick<Paywall, 'events'> {
+  const paywall = createPaywall(config);
+
+  const guard = async (req: IncomingMessage, res: ServerResponse) => {
+    const decision = await paywall({
+      method: req.method || 'GET',
+      path: stripQuery(req.url || '/'),
+      basePath: options.basePath,
+      hostname: stripPort(req.headers.host || ''),
+      ip: req.socket.remoteAddress,
+      header: readHeader(req.headers),
+      body: () => readJsonBody(req),
+    });
+
+    for (const [name, value] of Object.entries(decision.headers)) {
+      res.setHeader(name, value);
+    }
+    if (decision.action === 'allow') {
+      if (decision.meter) {
+        meterResponse(res, decision.meter);
+      }
+      return true;
+    }
+    res.statusCode = decision.status;
+    res.setHeader('content-type', 'application/json; charset=utf-8');
+    res.end(JSON.stringify(decision.body));
+    return false;
+  };
+
+  return Object.assign(guard, { events: paywall.events });
+}
+
+/**
+ * Wrap a Fetch API handler (`Request` in, `Response` out), as used by edge
+ * runtimes, Deno and Bun
+ * `export default { fetch: dns402Fetch(config, handler) }`
+ */
+export function dns402Fetch(
+  config: DNS402ServerConfig,
+  handler: (request: Request) => Response | Promise<Response>,
+  options: AdapterOptions = {}
+): ((request: Request) => Promise<Response>) & Pick<Paywall, 'events'> {
+  const paywall = createPaywall(config);
+
+  const wrapped = async (request: Request) => {
+    const url = new URL(request.url);
+    const decision = await paywall({
+      method: request.method,
+      path: url.pathname,
+      basePath: options.basePath,
+      hostname: url.hostname,
+      header: name => request.headers.get(name) ?? undefined,
+      body: () => request.json(),
+    });
+
+    if (decision.action === 'respond') {
+      return toResponse(decision);
+    }
+
+    const response = await handler(request);
+    if (!Object.keys(decision.headers).length && !decision.meter) {
+      return response;
+    }
+    // Response headers may be immutable, copy before adding
+    const body =
+      decision.meter && response.body ? response.body.pipeThrough(countBytes(decision.meter)) : response.body;
+    const withHeaders = new Response(body, response);
+    for (const [name, value] of Object.entries(decision.headers)) {
+      withHeaders.headers.set(name, value);
+    }
+    return withHeaders;
+  };
+
+  return Object.assign(wrapped, { events: paywall.events });
+}
+
+/** Largest payment notification body read from a raw request stream */
+const MAX_BODY_SIZE = 64 * 1024;
+
+/**
+ * Read and parse a JSON request body from a Node request stream
+ */
+export async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_SIZE) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Count the body bytes written to a Node response and report them to `meter`
+ * once the response has finished
+ */
+export function meterResponse(res: ServerResponse, meter: (bytes: number) => void): void {
+  let bytes = 0;
+  const count = (chunk: unknown, encoding?: unknown) => {
+    if (typeof chunk === 'string') {
+      bytes += Buffer.byteLength(chunk, typeof encoding === 'string' ? (encoding as BufferEncoding) : 'utf8');
+    } else if (chunk instanceof Uint8Array) {
+      bytes += chunk.byteLength;
+    }
+  };
+
+  const write = res.write;
+  const end = res.end;
+  res.write = function (this: ServerResponse, ...args: unknown[]) {
+    count(args[0], args[1]);
+    return (write as (...args: unknown[]) => boolean).apply(this, args);
+  } as ServerResponse['write'];
+  res.end = function (this: ServerResponse, ...args: unknown[]) {
+    if (typeof args[0] !== 'function') {
+      count(args[0], args[1]);
+    }
+    return (end as (...args: unknown[]) => ServerResponse).apply(this, args);
+  } as ServerResponse['end'];
+  res.once('finish', () => meter(bytes));
+}
+
+/**
+ * Stream that passes a body through, reporting its size to `meter` at the end
+ */
+function countBytes(meter: (bytes: number) => void): TransformStream<Uint8Array, Uint8Array> {
+  let bytes = 0;
+  return new TransformStream({
+    transform(chunk, controller) {
+      bytes += chunk.byteLength;
+      controller.enqueue(chunk);
+    },
+    flush() {
+      meter(bytes);
+    },
+  });
+}
+
+function toResponse(decision: Extract<PaywallDecision, { action: 'respond' }>): Response {
+  return new Response(JSON.stringify(decision.body), {
+    status: decision.status,
+    headers: { ...decision.headers, 'content-type': 'application/json; charset=utf-8' },
+  });
+}
+
+function readHeader(headers: HeaderMap): (name: string) => string | undefined {
+  return name => {
+    const value = headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+}
+
+function stripQuery(url: string): string {
+  const index = url.indexOf('?');
+  return index === -1 ? url : url.slice(0, index);
+}
+
+function stripPort(host: string): string {
+  // Keep bracketed IPv6 addresses intact
+  return host.replace(/:\d+$/, '');
+}
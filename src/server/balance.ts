@@ -0,0 +1,122 @@
+import { promises as fs } from 'fs';
+import type { BalanceStore } from '../core/types';
+
+/**
+ * In-memory balance store (per process)
+ */
+export class MemoryBalanceStore implements BalanceStore {
+  private balances: Map<string, number> = new Map();
+
+  async get(account: string): Promise<number> {
+    return this.balances.get(account) || 0;
+  }
+
+  async credit(account: string, amount: number): Promise<number> {
+    const balance = round((this.balances.get(account) || 0) + amount);
+    this.balances.set(account, balance);
+    return balance;
+  }
+
+  async debit(account: string, amount: number): Promise<{ debited: boolean; balance: number }> {
+    const current = this.balances.get(account) || 0;
+    if (current < amount) {
+      return { debited: false, balance: current };
+    }
+    const balance = round(current - amount);
+    this.balances.set(account, balance);
+    return { debited: true, balance };
+  }
+}
+
+/**
+ * File-backed balance store
+ * Appends one `account balance` line per change, so balances survive
+ * restarts; the latest line for an account wins. The file is compacted
+ * on load.
+ */
+export class FileBalanceStore implements BalanceStore {
+  private balances: Map<string, number> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private path: string) {}
+
+  get(account: string): Promise<number> {
+    return this.enqueue(async () => (await this.load()).get(account) || 0);
+  }
+
+  credit(account: string, amount: number): Promise<number> {
+    return this.enqueue(async () => {
+      const balances = await this.load();
+      const balance = round((balances.get(account) || 0) + amount);
+      await this.write(balances, account, balance);
+      return balance;
+    });
+  }
+
+  debit(account: string, amount: number): Promise<{ debited: boolean; balance: number }> {
+    return this.enqueue(async () => {
+      const balances = await this.load();
+      const current = balances.get(account) || 0;
+      if (current < amount) {
+        return { debited: false, balance: current };
+      }
+      const balance = round(current - amount);
+      await this.write(balances, account, balance);
+      return { debited: true, balance };
+    });
+  }
+
+  /**
+   * Serialize file operations so concurrent debits cannot race
+   */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async write(balances: Map<string, number>, account: string, balance: number): Promise<void> {
+    await fs.appendFile(this.path, `${account} ${balance}\n`);
+    balances.set(account, balance);
+  }
+
+  private async load(): Promise<Map<string, number>> {
+    if (this.balances) {
+      return this.balances;
+    }
+
+    const balances = new Map<string, number>();
+    let contents = '';
+    try {
+      contents = await fs.readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    let lines = 0;
+    for (const line of contents.split('\n')) {
+      const [account, balance] = line.trim().split(' ');
+      if (!account || !balance) continue;
+      balances.set(account, Number(balance));
+      lines++;
+    }
+
+    this.balances = balances;
+    if (lines > balances.size) {
+      const tmp = `${this.path}.tmp`;
+      const compacted = [...balances].map(([account, balance]) => `${account} ${balance}\n`);
+      await fs.writeFile(tmp, compacted.join(''));
+      await fs.rename(tmp, this.path);
+    }
+    return balances;
+  }
+}
+
+/**
+ * Drop floating point noise from repeated decimal additions
+ */
+function round(amount: number): number {
+  return Math.round(amount * 1e9) / 1e9;
+}
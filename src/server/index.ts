@@ -1,2 +1,47 @@
 export { dns402, createDNSRecord, createFullDNSRecord } from './middleware';
-export type { DNS402ServerConfig, PaymentProof } from '../core/types';
+export { createPaywall } from './paywall';
+export {
+  dns402Fastify,
+  dns402Koa,
+  dns402Hono,
+  dns402Node,
+  dns402Fetch,
+  meterResponse,
+} from './adapters';
+export type {
+  AdapterOptions,
+  FastifyRequestLike,
+  FastifyReplyLike,
+  KoaContextLike,
+  HonoContextLike,
+} from './adapters';
+export { MemoryReplayStore, FileReplayStore } from './replay';
+export { MemoryBalanceStore, FileBalanceStore } from './balance';
+export { createSessionToken, verifySessionToken } from './token';
+export { DNS402Emitter } from '../core/events';
+export { RpcPool } from '../core/rpc';
+export type {
+  BalanceStore,
+  DNS402Offer,
+  DNS402ServerConfig,
+  FreeTier,
+  PaymentModel,
+  PaymentProof,
+  PaymentVerification,
+  PaymentNotification,
+  PaymentRequiredReason,
+  Paywall,
+  PaywallDecision,
+  PaywallEvents,
+  PaywallRequest,
+  PriceQuote,
+  PriceRoute,
+  PricingFunction,
+  PricingRequest,
+  ReplayStore,
+  RpcEndpoint,
+  RpcEndpointStatus,
+  RpcPoolOptions,
+  SessionQuota,
+  SessionTokenClaims,
+} from '../core/types';
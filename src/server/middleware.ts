@@ -1,109 +1,52 @@
 import type { Request, Response, NextFunction, RequestHandler } from 'express';
-import { Connection, PublicKey } from '@solana/web3.js';
-import { DNS402ServerConfig, DNS402_HEADERS, PaymentProof, SupportedCurrency } from '../core/types';
-import { verifyPayment, createConnection } from '../core/solana';
+import { Keypair } from '@solana/web3.js';
+import {
+  DNS402Offer,
+  DNS402ServerConfig,
+  Paywall,
+  PaymentModel,
+  SupportedCurrency,
+} from '../core/types';
 import { generateRecord, generateDNSRecordString } from '../core/dns';
-
-interface PaymentSession {
-  payer: string;
-  signature: string;
-  expiresAt: number;
-}
+import { createPaywall } from './paywall';
+import { meterResponse, readJsonBody } from './adapters';
 
 /**
  * Express middleware for DNS402 payment verification
+ * Subscribe to what it does through its `events`. Failures (RPC, stores)
+ * are passed to the app's error handler, as Express 4 ignores rejections.
  */
-export function dns402(config: DNS402ServerConfig): RequestHandler {
-  const connection = createConnection(config.rpcEndpoint);
-  const sessionTTL = (config.sessionTTL || 3600) * 1000;
-  const sessions = new Map<string, PaymentSession>();
-
-  // Cleanup expired sessions periodically
-  setInterval(() => {
-    const now = Date.now();
-    for (const [key, session] of sessions) {
-      if (session.expiresAt < now) {
-        sessions.delete(key);
-      }
-    }
-  }, 60000);
-
-  return async (req: Request, res: Response, next: NextFunction) => {
-    const proof = req.headers[DNS402_HEADERS.PROOF.toLowerCase()] as string;
-    const payer = req.headers[DNS402_HEADERS.PAYER.toLowerCase()] as string;
-
-    // Check for existing valid session
-    if (payer) {
-      const session = sessions.get(payer);
-      if (session && session.expiresAt > Date.now()) {
-        // Valid session, allow through
-        return next();
-      }
-    }
+export function dns402(config: DNS402ServerConfig): RequestHandler & Pick<Paywall, 'events'> {
+  const paywall = createPaywall(config);
 
-    // No valid session, check for payment proof
-    if (!proof || !payer) {
-      return send402(res, config);
-    }
-
-    // Verify payment
-    const isValid = await verifyPayment(
-      connection,
-      proof,
-      config.wallet,
-      config.price,
-      config.currency
-    );
-
-    if (!isValid) {
-      res.status(403).json({
-        error: 'Invalid payment proof',
-        message: 'Payment verification failed',
+  const middleware = async (req: Request, res: Response, next: NextFunction) => {
+    let decision;
+    try {
+      decision = await paywall({
+        method: req.method,
+        path: req.baseUrl + req.path,
+        basePath: req.baseUrl,
+        hostname: req.hostname,
+        ip: req.ip,
+        header: name => req.get(name),
+        // Use the body parsed by express.json() if it ran
+        body: async () => (req.body !== undefined ? req.body : readJsonBody(req)),
       });
-      return;
+    } catch (error) {
+      return next(error);
     }
 
-    // Create session
-    const session: PaymentSession = {
-      payer,
-      signature: proof,
-      expiresAt: Date.now() + sessionTTL,
-    };
-    sessions.set(payer, session);
-
-    // Call onPayment callback
-    if (config.onPayment) {
-      const paymentProof: PaymentProof = {
-        signature: proof,
-        payer,
-        timestamp: Date.now(),
-      };
-      await Promise.resolve(config.onPayment(paymentProof));
+    res.set(decision.headers);
+    if (decision.action === 'allow') {
+      if (decision.meter) {
+        meterResponse(res, decision.meter);
+      }
+      return next();
     }
-
-    next();
+    res.status(decision.status).json(decision.body);
   };
-}
 
-/**
- * Send 402 Payment Required response with DNS402 headers
- */
-function send402(res: Response, config: DNS402ServerConfig): void {
-  res
-    .status(402)
-    .set(DNS402_HEADERS.PRICE, config.price.toString())
-    .set(DNS402_HEADERS.CURRENCY, config.currency)
-    .set(DNS402_HEADERS.NETWORK, 'solana')
-    .set(DNS402_HEADERS.WALLET, config.wallet)
-    .set(DNS402_HEADERS.SESSION_TTL, (config.sessionTTL || 3600).toString())
-    .json({
-      error: 'Payment Required',
-      price: config.price,
-      currency: config.currency,
-      network: 'solana',
-      wallet: config.wallet,
-      sessionTTL: config.sessionTTL || 3600,
-    });
+  return Object.assign(middleware, { events: paywall.events });
 }
 
 /**
@@ -114,7 +57,11 @@ export function createDNSRecord(config: {
   currency: SupportedCurrency;
   wallet: string;
   sessionTTL?: number;
-  model?: 'per-request' | 'session' | 'subscription';
+  model?: PaymentModel;
+  offers?: DNS402Offer[];
+  /** URL of the paywall's callbackPath, advertised as `cb` */
+  callback?: string;
+  signer?: Keypair;
 }): string {
   return generateRecord({
     price: config.price,
@@ -122,6 +69,9 @@ export function createDNSRecord(config: {
     wallet: config.wallet,
     ttl: config.sessionTTL,
     model: config.model,
+    offers: config.offers,
+    callback: config.callback,
+    signer: config.signer,
   });
 }
 
@@ -135,7 +85,11 @@ export function createFullDNSRecord(
     currency: SupportedCurrency;
     wallet: string;
     sessionTTL?: number;
-    model?: 'per-request' | 'session' | 'subscription';
+    model?: PaymentModel;
+    offers?: DNS402Offer[];
+    /** URL of the paywall's callbackPath, advertised as `cb` */
+    callback?: string;
+    signer?: Keypair;
   }
 ): string {
   return generateDNSRecordString(domain, {
@@ -144,5 +98,8 @@ export function createFullDNSRecord(
     wallet: config.wallet,
     ttl: config.sessionTTL,
     model: config.model,
+    offers: config.offers,
+    callback: config.callback,
+    signer: config.signer,
   });
 }
@@ -0,0 +1,637 @@
+import { randomBytes } from 'crypto';
+import {
+  DNS402ServerConfig,
+  DNS402_HEADERS,
+  DNS402Offer,
+  Paywall,
+  PaywallEvents,
+  PaymentCommitment,
+  PaymentNotification,
+  PaymentProof,
+  PaymentRequiredReason,
+  PaywallDecision,
+  PaywallRequest,
+  PricingRequest,
+  SupportedCurrency,
+} from '../core/types';
+import { verifyPayment, createConnection, waitForFinality } from '../core/solana';
+import { verifyChallenge, verifyNotification } from '../core/challenge';
+import { sessionExpiresAt } from '../core/model';
+import { DNS402Emitter } from '../core/events';
+import { MemoryReplayStore } from './replay';
+import { MemoryBalanceStore } from './balance';
+import { createFreeTier, createSessionQuotas } from './quota';
+import {
+  createChallengeNonce,
+  createSessionToken,
+  verifyChallengeNonce,
+  verifySessionToken,
+} from './token';
+import { createPriceResolver, ResolvedPrice } from './pricing';
+
+/** Seconds a block time may run ahead of the local clock */
+const CLOCK_SKEW = 3600;
+/** Seconds a client is asked to wait before presenting an unfinalized payment again */
+const PENDING_RETRY_AFTER = 5;
+
+/**
+ * Transport-neutral DNS402 paywall
+ * Decides for each request whether to let it through or answer it, without
+ * touching any framework's request or response objects. Adapters translate
+ * between a framework and this core. What happens is reported through the
+ * returned function's `events`.
+ */
+export function createPaywall(config: DNS402ServerConfig): Paywall {
+  const events = config.events || new DNS402Emitter<PaywallEvents>();
+  const connection = config.connection || createConnection(config.rpcEndpoint);
+  const model = config.model || 'session';
+  const sessionTTL = config.sessionTTL || 3600;
+  const maxProofAge = config.maxProofAge || 86400;
+  // Redeemed proofs are remembered past maxProofAge, with room for block
+  // times running ahead of this clock, so none is forgotten while it could
+  // still pass the age check
+  const claimTTL = (maxProofAge + CLOCK_SKEW) * 1000;
+  const challengeTTL = (config.challengeTTL || 300) * 1000;
+  const replayStore = config.replayStore || new MemoryReplayStore();
+  const balances = config.balanceStore || new MemoryBalanceStore();
+  const quotas = config.quota ? createSessionQuotas(config.quota) : null;
+  const freeTier = config.freeTier ? createFreeTier(config.freeTier) : null;
+  const sessionSecret = config.sessionSecret || randomBytes(32).toString('hex');
+  const commitment = commitmentOf(config);
+
+  if (model === 'prepaid' && config.cost === undefined) {
+    throw new Error("The 'prepaid' model needs a cost per request");
+  }
+
+  // Cleanup expired quota entries periodically, without keeping the
+  // process alive for it
+  setInterval(() => {
+    quotas?.prune();
+    freeTier?.prune();
+  }, 60000).unref?.();
+
+  const resolvePrice = createPriceResolver(config);
+
+  /**
+   * 402 decision with a fresh challenge
+   */
+  const offerPayment = (
+    request: PricingRequest,
+    quote: ResolvedPrice,
+    reason: PaymentRequiredReason
+  ): Extract<PaywallDecision, { action: 'respond' }> => {
+    events.emit('payment_required', {
+      method: request.method,
+      path: request.path,
+      price: quote.price,
+      currency: quote.currency,
+      reason,
+    });
+    return paymentRequired(
+      config,
+      quote,
+      createChallengeNonce(sessionSecret, Date.now() + challengeTTL),
+      reason
+    );
+  };
+
+  /**
+   * 409 decision for a payment that was already redeemed
+   */
+  const replayed = (proof: string, payer: string, offer: DNS402Offer): PaywallDecision => {
+    events.emit('payment_rejected', {
+      signature: proof,
+      payer,
+      currency: offer.currency,
+      reason: 'replayed',
+      message: 'Payment proof already redeemed',
+    });
+    return reply(409, {
+      error: 'Payment already used',
+      message: 'This payment proof has already been redeemed',
+    });
+  };
+
+  /**
+   * Verify a claimed payment on chain and credit a prepaid deposit
+   * Returns a rejection, or null once the payment is verified. A payment
+   * verified before (`first` false) is neither reported, credited nor
+   * watched again.
+   */
+  const settle = async (
+    request: PricingRequest,
+    quote: ResolvedPrice,
+    proof: string,
+    payer: string,
+    offer: DNS402Offer,
+    first = true
+  ): Promise<PaywallDecision | null> => {
+    // Verify payment was sent by the payer in the expected mint
+    const started = Date.now();
+    const verification = await verifyPayment(
+      connection,
+      proof,
+      config.wallet,
+      offer.price,
+      offer.currency as SupportedCurrency,
+      {
+        payer,
+        mint: offer.mint,
+        tolerance: config.paymentTolerance,
+        maxAge: maxProofAge,
+        commitment,
+      }
+    );
+
+    const duration = Date.now() - started;
+    events.emit('cache', { cache: 'transaction', hit: !!verification.cached });
+
+    if (!verification.valid) {
+      const message = verification.message || 'Payment verification failed';
+      if (verification.reason === 'rpc_error') {
+        events.emit('rpc_error', { operation: 'verifyPayment', message });
+      }
+      events.emit('payment_rejected', {
+        signature: proof,
+        payer,
+        currency: offer.currency,
+        reason: verification.reason || 'not_found',
+        message,
+        duration,
+      });
+      // Not a bad proof, an early one: ask for it again under a new challenge
+      if (verification.reason === 'not_finalized') {
+        const pending = offerPayment(request, quote, 'not_finalized');
+        return {
+          ...pending,
+          headers: { ...pending.headers, 'Retry-After': String(PENDING_RETRY_AFTER) },
+          body: { ...pending.body, error: 'Payment not finalized', message },
+        };
+      }
+      return reply(403, {
+        error: 'Invalid payment proof',
+        message,
+        reason: verification.reason,
+      });
+    }
+
+    // Counted once, when the payment is first verified
+    if (!first) {
+      return null;
+    }
+    events.emit('payment_verified', {
+      signature: proof,
+      payer,
+      price: offer.price,
+      currency: offer.currency,
+      duration,
+    });
+
+    // A prepaid payment deposits the price it was offered at
+    const deposit = quote.price;
+    if (model === 'prepaid') {
+      await balances.credit(payer, deposit);
+    }
+
+    // Revoke the session if the confirmed payment never finalizes, and take
+    // back what is left of a prepaid deposit. Revocations go to the replay
+    // store so every instance sharing it honors them.
+    if (config.finalityGrace) {
+      waitForFinality(connection, proof).then(async status => {
+        if (status === 'unknown') {
+          events.emit('rpc_error', {
+            operation: 'waitForFinality',
+            message: `Could not tell whether ${proof} finalized; keeping its session`,
+          });
+          return;
+        }
+        if (status !== 'finalized') {
+          await replayStore.claim(`revoked:${proof}`, Date.now() + claimTTL);
+          events.emit('payment_revoked', { signature: proof, payer });
+          if (model === 'prepaid') {
+            const { debited, balance } = await balances.debit(payer, deposit);
+            if (!debited && balance > 0) {
+              await balances.debit(payer, balance);
+            }
+          }
+        }
+      }).catch(() => {
+        // Replay or balance store failure; nothing left to do about it
+      });
+    }
+
+    return null;
+  };
+
+  /**
+   * Claim and verify a payment on chain for a request priced at `quote`
+   * Returns a rejection, or null once the payment is verified. In the
+   * prepaid model the payment credits the quoted price to the payer's balance.
+   */
+  const redeem = async (
+    request: PricingRequest,
+    quote: ResolvedPrice,
+    proof: string,
+    payer: string,
+    offer: DNS402Offer
+  ): Promise<PaywallDecision | null> => {
+    // Each payment may only be redeemed once. Claim it before verifying so
+    // concurrent requests presenting the same signature cannot both succeed.
+    const claimed = await replayStore.claim(proof, Date.now() + claimTTL);
+    if (!claimed) {
+      return replayed(proof, payer, offer);
+    }
+
+    // Until the payment counts, any failure gives the claim back so the
+    // payer can present the proof again
+    try {
+      const rejection = await settle(request, quote, proof, payer, offer);
+      if (rejection) {
+        await replayStore.release(proof);
+        return rejection;
+      }
+    } catch (error) {
+      await replayStore.release(proof);
+      throw error;
+    }
+
+    // The payment counts from here on; a failing hook must not cost the
+    // payer the access they paid for
+    if (config.onPayment) {
+      try {
+        await config.onPayment({
+          signature: proof,
+          payer,
+          timestamp: Date.now(),
+          currency: offer.currency,
+        });
+      } catch {
+        // Ignored, see above
+      }
+    }
+
+    return null;
+  };
+
+  /**
+   * Debit a request's cost from the payer's prepaid balance
+   * Answers 402 with a top-up hint when the balance does not cover it.
+   */
+  const charge = async (
+    request: PricingRequest,
+    quote: ResolvedPrice,
+    payer: string,
+    headers: Record<string, string>,
+    payment?: PaymentProof
+  ): Promise<PaywallDecision> => {
+    const cost = typeof config.cost === 'function' ? await config.cost(request) : config.cost || 0;
+    const { debited, balance } = await balances.debit(payer, cost);
+    headers[DNS402_HEADERS.BALANCE] = balance.toString();
+    if (debited) {
+      return { action: 'allow', headers, payment };
+    }
+
+    const topUp = offerPayment(request, quote, 'insufficient_balance');
+    return {
+      ...topUp,
+      headers: { ...topUp.headers, ...headers },
+      body: { ...topUp.body, error: 'Insufficient balance', balance, cost },
+    };
+  };
+
+  /**
+   * Admit a request made in a paid session, counting it against the
+   * session quota
+   * Answers 429 while the session is rate limited, and a fresh 402 once its
+   * quota is used up.
+   */
+  const admit = async (
+    request: PricingRequest,
+    quote: ResolvedPrice,
+    session: { payer: string; signature: string; expiresAt: number },
+    headers: Record<string, string>,
+    payment?: PaymentProof
+  ): Promise<PaywallDecision> => {
+    if (quotas) {
+      const usage = quotas.take(session.signature, session.expiresAt);
+      if (usage.status === 'limited') {
+        events.emit('rate_limited', { payer: session.payer, path: request.path });
+        return {
+          action: 'respond',
+          status: 429,
+          headers: { ...headers, ...usage.headers },
+          body: {
+            error: 'Too Many Requests',
+            message: `Session rate limit exceeded, retry in ${usage.headers['Retry-After']}s`,
+          },
+        };
+      }
+      if (usage.status === 'exhausted') {
+        const offer = offerPayment(request, quote, 'quota_exhausted');
+        return {
+          ...offer,
+          headers: { ...offer.headers, ...usage.headers },
+          body: { ...offer.body, error: 'Quota exhausted' },
+        };
+      }
+      Object.assign(headers, usage.headers);
+    }
+
+    const decision: PaywallDecision =
+      model === 'prepaid'
+        ? await charge(request, quote, session.payer, headers, payment)
+        : { action: 'allow', headers, payment };
+    if (decision.action === 'allow' && quotas && config.quota?.maxBytes !== undefined) {
+      decision.meter = bytes => quotas.addBytes(session.signature, bytes);
+    }
+    return decision;
+  };
+
+  /**
+   * Verify a payment notification POSTed by a client right after paying
+   * The payment is redeemed now at the price of the request it paid for,
+   * so the client's retry that presents it is not credited a second time.
+   */
+  const handleCallback = async (
+    request: PaywallRequest,
+    basePath: string
+  ): Promise<PaywallDecision> => {
+    let notification: Partial<PaymentNotification> | undefined;
+    try {
+      notification = (await request.body?.()) as Partial<PaymentNotification> | undefined;
+    } catch {
+      // Unreadable or malformed body, rejected below
+    }
+    if (!isNotification(notification)) {
+      return reply(400, {
+        error: 'Invalid notification',
+        message: 'Expected domain, method, path, signature, payer, currency, timestamp and auth',
+      });
+    }
+
+    // A notification signed for one domain says nothing to another sharing
+    // this paywall's stores
+    if (notification.domain.toLowerCase() !== request.hostname.toLowerCase()) {
+      return reply(400, {
+        error: 'Wrong domain',
+        message: `The notification is for ${notification.domain}, not ${request.hostname}`,
+      });
+    }
+
+    if (Math.abs(Date.now() - notification.timestamp) > challengeTTL) {
+      return reply(400, {
+        error: 'Stale notification',
+        message: 'The notification timestamp is too far from the current time',
+      });
+    }
+
+    if (!verifyNotification(notification)) {
+      return reply(401, {
+        error: 'Invalid notification signature',
+        message: 'The notification must be signed by the paying wallet',
+      });
+    }
+
+    // Price the payment like the request it was made for
+    const pricing = {
+      method: notification.method,
+      path: relativePath(notification.path, basePath),
+    };
+    const quote = await resolvePrice(pricing, basePath);
+    const offer = quote.offers.find(
+      o => o.currency.toUpperCase() === notification.currency.toUpperCase()
+    );
+    if (!offer) {
+      return reply(400, {
+        error: 'Unsupported currency',
+        message: `Payment in ${notification.currency} is not accepted here`,
+      });
+    }
+
+    const rejection = await redeem(pricing, quote, notification.signature, notification.payer, offer);
+    if (rejection) {
+      return rejection;
+    }
+
+    // Noted in the replay store, so the retry is recognized by any instance
+    await replayStore.claim(`notified:${notification.signature}`, Date.now() + claimTTL);
+    return reply(200, { accepted: true });
+  };
+
+  const paywall = async (request: PaywallRequest): Promise<PaywallDecision> => {
+    const proof = request.header(DNS402_HEADERS.PROOF.toLowerCase());
+    const payer = request.header(DNS402_HEADERS.PAYER.toLowerCase());
+    const nonce = request.header(DNS402_HEADERS.NONCE.toLowerCase());
+    const challenge = request.header(DNS402_HEADERS.SIGNATURE.toLowerCase());
+    const token = request.header(DNS402_HEADERS.TOKEN.toLowerCase());
+    const paidCurrency = request.header(DNS402_HEADERS.PAYMENT_CURRENCY.toLowerCase());
+
+    // Sessions only unlock the price scope they were bought for
+    const basePath = (request.basePath || '').replace(/\/+$/, '');
+    const path = relativePath(request.path, basePath);
+
+    if (
+      config.callbackPath &&
+      request.method.toUpperCase() === 'POST' &&
+      path === config.callbackPath
+    ) {
+      return handleCallback(request, basePath);
+    }
+
+    const pricing = { method: request.method, path };
+    const resolved = await resolvePrice(pricing, basePath);
+    // A prepaid balance pays for every route behind the paywall
+    const quote =
+      model === 'prepaid' ? { ...resolved, scope: `${basePath || '/'}|prepaid` } : resolved;
+    const { scope } = quote;
+
+    // Check for existing valid session token (per-request payments never
+    // open a session)
+    if (token && model !== 'per-request') {
+      const claims = verifySessionToken(token, sessionSecret);
+      if (
+        claims &&
+        claims.domain === request.hostname &&
+        claims.scope === scope &&
+        !(config.finalityGrace && (await replayStore.has(`revoked:${claims.signature}`)))
+      ) {
+        // Valid session, allow through within its quota
+        events.emit('session_hit', { payer: claims.payer, path, scope });
+        return admit(pricing, quote, claims, {});
+      }
+    }
+
+    // No valid session, check for payment proof bound to a challenge
+    if (!proof || !payer || !nonce || !challenge) {
+      // Unpaid callers may use up a free allowance first
+      if (freeTier) {
+        const usage = freeTier.take(request);
+        if (usage.status === 'ok') {
+          events.emit('free_request', { path });
+          return { action: 'allow', headers: usage.headers };
+        }
+        const offer = offerPayment(pricing, quote, 'unpaid');
+        return { ...offer, headers: { ...offer.headers, ...usage.headers } };
+      }
+      return offerPayment(pricing, quote, 'unpaid');
+    }
+
+    // Verify against the offer the client says it paid (default: primary)
+    const offer = paidCurrency
+      ? quote.offers.find(o => o.currency.toUpperCase() === paidCurrency.toUpperCase())
+      : quote.offers[0];
+    if (!offer) {
+      return reply(400, {
+        error: 'Unsupported currency',
+        message: `Payment in ${paidCurrency} is not accepted here`,
+      });
+    }
+
+    // Forged or expired challenge, offer a fresh one. Nonces are checked
+    // statelessly, so any instance sharing sessionSecret accepts them.
+    const nonceExpiresAt = verifyChallengeNonce(nonce, sessionSecret);
+    if (nonceExpiresAt === null) {
+      return offerPayment(pricing, quote, 'challenge_expired');
+    }
+
+    if (!verifyChallenge(payer, nonce, proof, challenge)) {
+      events.emit('payment_rejected', {
+        signature: proof,
+        payer,
+        currency: offer.currency,
+        reason: 'invalid_challenge',
+        message: 'Challenge not signed by the paying wallet',
+      });
+      return reply(401, {
+        error: 'Invalid challenge signature',
+        message: 'The challenge must be signed by the paying wallet',
+      });
+    }
+
+    // Each challenge answers one request, across instances sharing the
+    // replay store; a used one is offered afresh
+    if (!(await replayStore.claim(`challenge:${nonce}`, nonceExpiresAt))) {
+      return offerPayment(pricing, quote, 'challenge_expired');
+    }
+
+    // Each payment admits one request, across instances sharing the replay
+    // store. One already redeemed through the callback is verified again at
+    // this request's price, without being credited twice.
+    const admission = `admitted:${proof}`;
+    if (!(await replayStore.claim(admission, Date.now() + claimTTL))) {
+      return replayed(proof, payer, offer);
+    }
+    try {
+      const rejection = (await replayStore.has(`notified:${proof}`))
+        ? await settle(pricing, quote, proof, payer, offer, false)
+        : await redeem(pricing, quote, proof, payer, offer);
+      if (rejection) {
+        await replayStore.release(admission);
+        return rejection;
+      }
+    } catch (error) {
+      await replayStore.release(admission);
+      throw error;
+    }
+
+    const payment: PaymentProof = {
+      signature: proof,
+      payer,
+      timestamp: Date.now(),
+      currency: offer.currency,
+    };
+    if (model === 'per-request') {
+      return { action: 'allow', headers: {}, payment };
+    }
+
+    // Issue session token, valid for the session TTL or billing period
+    const session = { payer, signature: proof, expiresAt: sessionExpiresAt(model, sessionTTL) };
+    const headers = {
+      [DNS402_HEADERS.TOKEN]: createSessionToken(
+        { ...session, domain: request.hostname, scope },
+        sessionSecret
+      ),
+    };
+    return admit(pricing, quote, session, headers, payment);
+  };
+
+  return Object.assign(paywall, { events });
+}
+
+/**
+ * 402 Payment Required decision with DNS402 headers
+ */
+function paymentRequired(
+  config: DNS402ServerConfig,
+  quote: ResolvedPrice,
+  nonce: string,
+  reason: PaymentRequiredReason
+): Extract<PaywallDecision, { action: 'respond' }> {
+  return {
+    action: 'respond',
+    status: 402,
+    headers: {
+      [DNS402_HEADERS.PRICE]: quote.price.toString(),
+      [DNS402_HEADERS.CURRENCY]: quote.currency,
+      [DNS402_HEADERS.NETWORK]: 'solana',
+      [DNS402_HEADERS.WALLET]: config.wallet,
+      [DNS402_HEADERS.SESSION_TTL]: (config.sessionTTL || 3600).toString(),
+      [DNS402_HEADERS.MODEL]: config.model || 'session',
+      [DNS402_HEADERS.CHALLENGE]: nonce,
+      [DNS402_HEADERS.REASON]: reason,
+      [DNS402_HEADERS.COMMITMENT]: commitmentOf(config),
+      [DNS402_HEADERS.PRICING]: quote.pricing,
+      [DNS402_HEADERS.SCOPE]: quote.scope,
+    },
+    body: {
+      error: 'Payment Required',
+      price: quote.price,
+      currency: quote.currency,
+      network: 'solana',
+      wallet: config.wallet,
+      sessionTTL: config.sessionTTL || 3600,
+      model: config.model || 'session',
+      offers: quote.offers,
+      pricing: quote.pricing,
+      scope: quote.scope,
+      challenge: nonce,
+      reason,
+      commitment: commitmentOf(config),
+    },
+  };
+}
+
+/**
+ * Commitment a payment must reach before it is accepted
+ * In grace mode payments are accepted once confirmed and must finalize later.
+ */
+function commitmentOf(config: DNS402ServerConfig): PaymentCommitment {
+  return config.finalityGrace ? 'confirmed' : config.commitment || 'confirmed';
+}
+
+function reply(status: number, body: Record<string, unknown>): PaywallDecision {
+  return { action: 'respond', status, headers: {}, body };
+}
+
+/**
+ * Path relative to the paywall's mount path
+ */
+function relativePath(path: string, basePath: string): string {
+  return basePath && path.startsWith(basePath) ? path.slice(basePath.length) || '/' : path;
+}
+
+function isNotification(
+  value: Partial<PaymentNotification> | undefined
+): value is PaymentNotification {
+  return (
+    !!value &&
+    typeof value.domain === 'string' &&
+    typeof value.method === 'string' &&
+    typeof value.path === 'string' &&
+    typeof value.signature === 'string' &&
+    typeof value.payer === 'string' &&
+    typeof value.currency === 'string' &&
+    typeof value.timestamp === 'number' &&
+    typeof value.auth === 'string'
+  );
+}
@@ -0,0 +1,120 @@
+import type {
+  DNS402Offer,
+  DNS402ServerConfig,
+  PriceRoute,
+  PricingRequest,
+  SupportedCurrency,
+} from '../core/types';
+
+/**
+ * Price, currency and session scope resolved for a request
+ */
+export interface ResolvedPrice {
+  price: number;
+  currency: SupportedCurrency;
+  mint?: string;
+  scope: string;
+  /** Every accepted offer, the primary price first */
+  offers: DNS402Offer[];
+  /**
+   * 'route' when per-route or dynamic pricing set the price in place of
+   * the default one the DNS record advertises
+   */
+  pricing: 'default' | 'route';
+}
+
+interface CompiledRoute {
+  route: PriceRoute;
+  method: string;
+  pattern: RegExp;
+  key: string;
+}
+
+/**
+ * Build a per-request price resolver from the middleware config
+ * Scopes are prefixed with the mount path so sessions bought behind one
+ * middleware never unlock another.
+ */
+export function createPriceResolver(
+  config: DNS402ServerConfig
+): (req: PricingRequest, mountPath: string) => Promise<ResolvedPrice> {
+  const pricing = config.pricing;
+  const routes = Array.isArray(pricing) ? pricing.map(compileRoute) : [];
+
+  return async (req, mountPath) => {
+    const base = mountPath || '/';
+
+    if (typeof pricing === 'function') {
+      const quote = await pricing(req);
+      if (quote) {
+        const currency = quote.currency || config.currency;
+        const mint = quote.mint || config.mint;
+        return {
+          price: quote.price,
+          currency,
+          mint,
+          scope: `${base}|${quote.scope || `${quote.price} ${currency}`}`,
+          offers: [{ price: quote.price, currency, mint }, ...(quote.offers || [])],
+          pricing: 'route',
+        };
+      }
+    }
+
+    const method = req.method.toUpperCase();
+    for (const compiled of routes) {
+      if (compiled.method !== '*' && compiled.method !== method) continue;
+      if (!compiled.pattern.test(req.path)) continue;
+
+      const { route } = compiled;
+      const currency = route.currency || config.currency;
+      const mint = route.mint || config.mint;
+      return {
+        price: route.price,
+        currency,
+        mint,
+        scope: `${base}|${route.scope || compiled.key}`,
+        offers: [{ price: route.price, currency, mint }, ...(route.offers || [])],
+        pricing: 'route',
+      };
+    }
+
+    return {
+      price: config.price,
+      currency: config.currency,
+      mint: config.mint,
+      scope: base,
+      offers: [
+        { price: config.price, currency: config.currency, mint: config.mint },
+        ...(config.offers || []),
+      ],
+      pricing: 'default',
+    };
+  };
+}
+
+function compileRoute(route: PriceRoute): CompiledRoute {
+  const method = (route.method || '*').toUpperCase();
+  const pattern = typeof route.path === 'string' ? compilePath(route.path) : route.path;
+  return {
+    route,
+    method,
+    pattern,
+    key: `${method} ${route.path.toString()}`,
+  };
+}
+
+/**
+ * Compile a path pattern such as `/users/:id/*` into an anchored RegExp
+ */
+function compilePath(path: string): RegExp {
+  const source = path
+    .replace(/\/+$/, '')
+    .split(/(\*|:[A-Za-z0-9_]+)/)
+    .map(part => {
+      if (part === '*') return '.*';
+      if (part.startsWith(':')) return '[^/]+';
+      return part.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}/?$`);
+}
@@ -0,0 +1,179 @@
+import type { FreeTier, PaywallRequest, SessionQuota } from '../core/types';
+
+/**
+ * Outcome of counting a request against a limit
+ * - ok: the request may proceed
+ * - limited: too many requests right now; Retry-After says when to try again
+ * - exhausted: the allowance is used up until paid for again
+ */
+export interface QuotaResult {
+  status: 'ok' | 'limited' | 'exhausted';
+  /** RateLimit-* and Retry-After headers for the response */
+  headers: Record<string, string>;
+}
+
+interface SessionUsage {
+  requests: number;
+  bytes: number;
+  /** Token bucket level */
+  tokens: number;
+  refilledAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Track request counts, request rate and response bytes per paid session
+ * Sessions are identified by their payment signature.
+ */
+export function createSessionQuotas(quota: SessionQuota) {
+  const burst = quota.burst ?? Math.max(1, quota.rate || 0);
+  const sessions = new Map<string, SessionUsage>();
+
+  const usage = (session: string, expiresAt: number, now: number): SessionUsage => {
+    let entry = sessions.get(session);
+    if (!entry) {
+      entry = { requests: 0, bytes: 0, tokens: burst, refilledAt: now, expiresAt };
+      sessions.set(session, entry);
+    }
+    // Tokens accrue continuously up to the burst size
+    if (quota.rate) {
+      entry.tokens = Math.min(burst, entry.tokens + ((now - entry.refilledAt) / 1000) * quota.rate);
+      entry.refilledAt = now;
+    }
+    return entry;
+  };
+
+  /**
+   * RateLimit headers for the tightest configured limit: the request quota
+   * if there is one, otherwise the token bucket
+   */
+  const headers = (entry: SessionUsage, now: number, remaining?: number): Record<string, string> => {
+    if (quota.maxRequests !== undefined) {
+      return rateLimitHeaders(
+        quota.maxRequests,
+        remaining ?? quota.maxRequests - entry.requests,
+        (entry.expiresAt - now) / 1000
+      );
+    }
+    if (quota.rate) {
+      return rateLimitHeaders(
+        burst,
+        remaining ?? Math.floor(entry.tokens),
+        (burst - entry.tokens) / quota.rate
+      );
+    }
+    return {};
+  };
+
+  return {
+    /**
+     * Count a request against a session expiring at `expiresAt`
+     * Requests that are refused are not counted.
+     */
+    take(session: string, expiresAt: number): QuotaResult {
+      const now = Date.now();
+      const entry = usage(session, expiresAt, now);
+
+      const outOfRequests = quota.maxRequests !== undefined && entry.requests >= quota.maxRequests;
+      const outOfBytes = quota.maxBytes !== undefined && entry.bytes >= quota.maxBytes;
+      if (outOfRequests || outOfBytes) {
+        return { status: 'exhausted', headers: headers(entry, now, 0) };
+      }
+
+      if (quota.rate && entry.tokens < 1) {
+        const retryAfter = Math.ceil((1 - entry.tokens) / quota.rate);
+        return {
+          status: 'limited',
+          headers: { ...headers(entry, now, 0), 'Retry-After': retryAfter.toString() },
+        };
+      }
+
+      entry.requests++;
+      if (quota.rate) {
+        entry.tokens -= 1;
+      }
+      return { status: 'ok', headers: headers(entry, now) };
+    },
+
+    /**
+     * Add the size of a response sent in a session
+     */
+    addBytes(session: string, bytes: number): void {
+      const entry = sessions.get(session);
+      if (entry) {
+        entry.bytes += bytes;
+      }
+    },
+
+    /**
+     * Forget sessions that have expired
+     */
+    prune(): void {
+      const now = Date.now();
+      for (const [session, entry] of sessions) {
+        if (entry.expiresAt < now) {
+          sessions.delete(session);
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Count requests of unpaid callers in fixed windows
+ */
+export function createFreeTier(tier: FreeTier) {
+  const window = (tier.window || 86400) * 1000;
+  const key = tier.key || ((request: PaywallRequest) => request.ip);
+  const callers = new Map<string, { requests: number; resetAt: number }>();
+
+  return {
+    /**
+     * Count a request against its caller's allowance
+     * Callers without a key have no allowance.
+     */
+    take(request: PaywallRequest): QuotaResult {
+      const caller = key(request);
+      if (!caller) {
+        return { status: 'exhausted', headers: {} };
+      }
+
+      const now = Date.now();
+      let entry = callers.get(caller);
+      if (!entry || entry.resetAt <= now) {
+        entry = { requests: 0, resetAt: now + window };
+        callers.set(caller, entry);
+      }
+
+      const reset = (entry.resetAt - now) / 1000;
+      if (entry.requests >= tier.requests) {
+        return { status: 'exhausted', headers: rateLimitHeaders(tier.requests, 0, reset) };
+      }
+      entry.requests++;
+      return {
+        status: 'ok',
+        headers: rateLimitHeaders(tier.requests, tier.requests - entry.requests, reset),
+      };
+    },
+
+    /**
+     * Forget callers whose window has ended
+     */
+    prune(): void {
+      const now = Date.now();
+      for (const [caller, entry] of callers) {
+        if (entry.resetAt <= now) {
+          callers.delete(caller);
+        }
+      }
+    },
+  };
+}
+
+function rateLimitHeaders(limit: number, remaining: number, reset: number): Record<string, string> {
+  return {
+    'RateLimit-Limit': limit.toString(),
+    'RateLimit-Remaining': Math.max(0, remaining).toString(),
+    'RateLimit-Reset': Math.max(0, Math.ceil(reset)).toString(),
+  };
+}
@@ -0,0 +1,200 @@
+import { promises as fs } from 'fs';
+import type { ReplayStore } from '../core/types';
+
+/**
+ * In-memory replay store (per process)
+ */
+export class MemoryReplayStore implements ReplayStore {
+  private entries: Map<string, number> = new Map();
+  /** Claims ordered by expiry, so pruning only visits expired ones */
+  private expiries: Expiry[] = [];
+
+  async claim(signature: string, expiresAt: number): Promise<boolean> {
+    this.prune();
+    if (this.entries.has(signature)) {
+      return false;
+    }
+    this.entries.set(signature, expiresAt);
+    pushExpiry(this.expiries, { signature, expiresAt });
+    return true;
+  }
+
+  async has(signature: string): Promise<boolean> {
+    this.prune();
+    return this.entries.has(signature);
+  }
+
+  async release(signature: string): Promise<void> {
+    // Its expiry stays queued and is skipped once it comes up
+    this.entries.delete(signature);
+  }
+
+  /**
+   * Drop entries whose proofs are too old to be accepted anyway
+   */
+  private prune(): void {
+    const now = Date.now();
+    while (this.expiries.length && this.expiries[0].expiresAt < now) {
+      const { signature, expiresAt } = popExpiry(this.expiries);
+      // Unless it was released and claimed again since
+      if (this.entries.get(signature) === expiresAt) {
+        this.entries.delete(signature);
+      }
+    }
+  }
+}
+
+interface Expiry {
+  signature: string;
+  expiresAt: number;
+}
+
+/**
+ * Add to a binary min-heap ordered by expiry
+ */
+function pushExpiry(heap: Expiry[], expiry: Expiry): void {
+  let index = heap.push(expiry) - 1;
+  while (index > 0) {
+    const parent = (index - 1) >> 1;
+    if (heap[parent].expiresAt <= expiry.expiresAt) break;
+    heap[index] = heap[parent];
+    index = parent;
+  }
+  heap[index] = expiry;
+}
+
+/**
+ * Remove the earliest expiry from a non-empty binary min-heap
+ */
+function popExpiry(heap: Expiry[]): Expiry {
+  const earliest = heap[0];
+  const last = heap.pop() as Expiry;
+  if (!heap.length) return earliest;
+
+  let index = 0;
+  for (;;) {
+    let child = 2 * index + 1;
+    if (child >= heap.length) break;
+    if (child + 1 < heap.length && heap[child + 1].expiresAt < heap[child].expiresAt) child++;
+    if (heap[child].expiresAt >= last.expiresAt) break;
+    heap[index] = heap[child];
+    index = child;
+  }
+  heap[index] = last;
+  return earliest;
+}
+
+/**
+ * File-backed replay store
+ * Appends a `signature expiresAt` line per claim, and the signature with
+ * expiry 0 per release, so claims survive restarts. The file is compacted on
+ * load and once it holds more stale lines than live ones.
+ */
+export class FileReplayStore implements ReplayStore {
+  private entries: Map<string, number> | null = null;
+  /** Lines in the file, live or stale */
+  private lines = 0;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private path: string) {}
+
+  claim(signature: string, expiresAt: number): Promise<boolean> {
+    return this.enqueue(async () => {
+      const entries = await this.load();
+      const existing = entries.get(signature);
+      if (existing !== undefined && existing >= Date.now()) {
+        return false;
+      }
+      entries.set(signature, expiresAt);
+      await this.append(signature, expiresAt);
+      return true;
+    });
+  }
+
+  has(signature: string): Promise<boolean> {
+    return this.enqueue(async () => {
+      const expiresAt = (await this.load()).get(signature);
+      return expiresAt !== undefined && expiresAt >= Date.now();
+    });
+  }
+
+  release(signature: string): Promise<void> {
+    return this.enqueue(async () => {
+      const entries = await this.load();
+      if (!entries.delete(signature)) return;
+      await this.append(signature, 0);
+      if (this.lines - entries.size > entries.size) {
+        await this.compact(entries);
+      }
+    });
+  }
+
+  /**
+   * Serialize file operations so concurrent claims cannot race
+   */
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async append(signature: string, expiresAt: number): Promise<void> {
+    await fs.appendFile(this.path, `${signature} ${expiresAt}\n`);
+    this.lines++;
+  }
+
+  private async load(): Promise<Map<string, number>> {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    const entries = new Map<string, number>();
+    let contents = '';
+    try {
+      contents = await fs.readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    // Later lines win: a release, or a claim made again after one
+    const now = Date.now();
+    let lines = 0;
+    for (const line of contents.split('\n')) {
+      const [signature, expiresAt] = line.trim().split(' ');
+      if (!signature || !expiresAt) continue;
+      lines++;
+      const expiry = parseInt(expiresAt, 10);
+      if (expiry < now) {
+        entries.delete(signature);
+      } else {
+        entries.set(signature, expiry);
+      }
+    }
+
+    this.entries = entries;
+    this.lines = lines;
+    if (lines > entries.size) {
+      await this.compact(entries);
+    }
+    return entries;
+  }
+
+  private async compact(entries: Map<string, number>): Promise<void> {
+    const now = Date.now();
+    const lines: string[] = [];
+    for (const [signature, expiresAt] of entries) {
+      if (expiresAt < now) {
+        entries.delete(signature);
+        continue;
+      }
+      lines.push(`${signature} ${expiresAt}\n`);
+    }
+
+    const tmp = `${this.path}.tmp`;
+    await fs.writeFile(tmp, lines.join(''));
+    await fs.rename(tmp, this.path);
+    this.lines = lines.length;
+  }
+}
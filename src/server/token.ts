@@ -0,0 +1,72 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { SessionTokenClaims } from '../core/types';
+
+/**
+ * Mint a stateless session token
+ * Format: base64url(JSON claims).base64url(HMAC-SHA256)
+ */
+export function createSessionToken(claims: SessionTokenClaims, secret: string): string {
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Verify a session token's signature and expiry
+ * Returns the claims, or null if the token is forged, malformed or expired
+ */
+export function verifySessionToken(token: string, secret: string): SessionTokenClaims | null {
+  const [payload, mac] = token.split('.');
+  if (!payload || !mac) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(mac);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as SessionTokenClaims;
+    if (typeof claims.expiresAt !== 'number' || claims.expiresAt <= Date.now()) {
+      return null;
+    }
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Issue a stateless 402 challenge nonce
+ * Format: {random hex}.{expiresAt}.base64url(HMAC-SHA256), so any instance
+ * sharing the secret can check it. Single use is up to the caller.
+ */
+export function createChallengeNonce(secret: string, expiresAt: number): string {
+  const payload = `${randomBytes(16).toString('hex')}.${expiresAt}`;
+  return `${payload}.${sign(`challenge:${payload}`, secret)}`;
+}
+
+/**
+ * Verify a challenge nonce was issued with this secret and has not expired
+ * Returns its expiry, or null if the nonce is forged, malformed or expired
+ */
+export function verifyChallengeNonce(nonce: string, secret: string): number | null {
+  const [random, expiresAt, mac] = nonce.split('.');
+  if (!random || !expiresAt || !mac) {
+    return null;
+  }
+
+  const expected = Buffer.from(sign(`challenge:${random}.${expiresAt}`, secret));
+  const actual = Buffer.from(mac);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  const expiry = parseInt(expiresAt, 10);
+  return expiry > Date.now() ? expiry : null;
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
@@ -0,0 +1,73 @@
+import type { Express } from 'express';
+import type { AddressInfo } from 'net';
+import type { DNS402ServerConfig } from '../core/types';
+import { dns402 } from '../server/middleware';
+import type { FakeLedger } from './ledger';
+
+export interface TestAppOptions {
+  /** Paywall configuration */
+  paywall: DNS402ServerConfig;
+  /** Ledger the paywall verifies payments against, unless paywall.connection is set */
+  ledger?: FakeLedger;
+  /** Where the paywalled routes are mounted (default: '/paid') */
+  path?: string;
+}
+
+export interface TestApp {
+  app: Express;
+  /** Base URL of the listening server, e.g. http://127.0.0.1:54321 */
+  url: string;
+  /** Host name clients look up the DNS402 record for */
+  domain: string;
+  /** Requests that made it through the paywall, in order */
+  served: Array<{ method: string; path: string }>;
+  close(): Promise<void>;
+}
+
+/**
+ * Start an Express app with a free route and a paywalled one, on a random
+ * local port
+ *
+ * `GET /free` always answers. Everything under `path` sits behind the dns402
+ * middleware and echoes the request as JSON once paid for. Requires express,
+ * which is an optional peer dependency.
+ */
+export async function createTestApp(options: TestAppOptions): Promise<TestApp> {
+  const { default: express } = await import('express');
+  const path = options.path || '/paid';
+  const served: TestApp['served'] = [];
+
+  const app = express();
+  app.get('/free', (_req, res) => {
+    res.json({ free: true });
+  });
+  app.use(
+    path,
+    express.json(),
+    dns402({ connection: options.ledger?.connection, ...options.paywall }),
+    (req, res) => {
+      served.push({ method: req.method, path: req.originalUrl });
+      res.json({ paid: true, method: req.method, path: req.originalUrl, body: req.body });
+    }
+  );
+
+  const server = app.listen(0, '127.0.0.1');
+  await new Promise<void>((resolve, reject) => {
+    server.once('listening', resolve);
+    server.once('error', reject);
+  });
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    app,
+    url: `http://127.0.0.1:${port}`,
+    domain: '127.0.0.1',
+    served,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close(error => (error ? reject(error) : resolve()));
+        // Do not wait for idle keep-alive connections from fetch
+        server.closeAllConnections();
+      }),
+  };
+}
@@ -0,0 +1,94 @@
+import type { DNS402Resolver, TxtLookup } from '../core/types';
+
+interface StubAnswer {
+  records: string[];
+  ttl: number;
+  authenticated: boolean;
+}
+
+/**
+ * Scriptable TXT resolver for tests
+ * Answers from records set per name, records every lookup, and can be made
+ * to fail. Names are matched case-insensitively, without a trailing dot.
+ */
+export class StubResolver implements DNS402Resolver {
+  readonly reportsDNSSEC = true;
+  /** Names looked up, in order */
+  readonly lookups: string[] = [];
+
+  private answers = new Map<string, StubAnswer>();
+  private failures = new Map<string, Error>();
+
+  /**
+   * Answer lookups of `name` with the given TXT records
+   */
+  set(
+    name: string,
+    records: string | string[],
+    options: { ttl?: number; authenticated?: boolean } = {}
+  ): this {
+    this.answers.set(normalize(name), {
+      records: Array.isArray(records) ? records : [records],
+      ttl: options.ttl ?? 300,
+      authenticated: options.authenticated ?? false,
+    });
+    return this;
+  }
+
+  /**
+   * Publish a DNS402 record for a domain, at `_402.<domain>`
+   */
+  setRecord(
+    domain: string,
+    record: string | string[],
+    options: { ttl?: number; authenticated?: boolean } = {}
+  ): this {
+    return this.set(`_402.${domain}`, record, options);
+  }
+
+  /**
+   * Make lookups of `name` reject, e.g. with a timeout or SERVFAIL
+   */
+  fail(name: string, error: Error = new Error(`queryTxt ESERVFAIL ${name}`)): this {
+    this.failures.set(normalize(name), error);
+    return this;
+  }
+
+  /**
+   * Remove the answer or failure for `name`, so it resolves to nothing
+   */
+  remove(name: string): this {
+    this.answers.delete(normalize(name));
+    this.failures.delete(normalize(name));
+    return this;
+  }
+
+  /**
+   * Forget all answers, failures and recorded lookups
+   */
+  reset(): this {
+    this.answers.clear();
+    this.failures.clear();
+    this.lookups.length = 0;
+    return this;
+  }
+
+  async resolveTxt(name: string): Promise<TxtLookup> {
+    const key = normalize(name);
+    this.lookups.push(key);
+
+    const failure = this.failures.get(key);
+    if (failure) {
+      throw failure;
+    }
+    const answer = this.answers.get(key);
+    if (!answer) {
+      return { records: [], ttl: 0 };
+    }
+    return { records: [...answer.records], ttl: answer.ttl, authenticated: answer.authenticated };
+  }
+}
+
+function normalize(name: string): string {
+  return name.toLowerCase().replace(/\.$/, '');
+}
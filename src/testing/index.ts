@@ -0,0 +1,5 @@
+export { FakeLedger } from './ledger';
+export type { FakeLedgerOptions } from './ledger';
+export { StubResolver } from './dns';
+export { createTestApp } from './app';
+export type { TestApp, TestAppOptions } from './app';
@@ -0,0 +1,800 @@
+import { randomBytes } from 'crypto';
+import {
+  AccountInfo,
+  ComputeBudgetInstruction,
+  ComputeBudgetProgram,
+  Connection,
+  Keypair,
+  LAMPORTS_PER_SOL,
+  Message,
+  PublicKey,
+  SendTransactionError,
+  SystemInstruction,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+} from '@solana/web3.js';
+import {
+  ACCOUNT_SIZE,
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  AccountLayout,
+  AccountState,
+  MINT_SIZE,
+  MintLayout,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  TokenInstruction,
+  decodeTransferCheckedInstruction,
+  decodeTransferInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import bs58 from 'bs58';
+
+type Address = PublicKey | string;
+type Commitment = 'processed' | 'confirmed' | 'finalized';
+type InstructionError = string | { Custom: number };
+
+const DEFAULT_FEE_PER_SIGNATURE = 5000;
+const DEFAULT_COMPUTE_UNITS = 200_000;
+const BLOCKHASH_VALIDITY = 150;
+const FAUCET_LAMPORTS = BigInt(1_000_000_000) * BigInt(LAMPORTS_PER_SOL);
+
+// spl-token and system program error codes, as reported by a real cluster
+const INSUFFICIENT_FUNDS = { Custom: 1 };
+const MINT_MISMATCH = { Custom: 3 };
+const OWNER_MISMATCH = { Custom: 4 };
+const ACCOUNT_EXISTS = { Custom: 0 };
+const DECIMALS_MISMATCH = { Custom: 18 };
+
+let instances = 0;
+
+export interface FakeLedgerOptions {
+  /** Lamports charged per signature (default: 5000) */
+  feePerSignature?: number;
+  /**
+   * Finalize transactions as soon as they land (default: true). When false
+   * they stay 'confirmed' until finalize() is called.
+   */
+  autoFinalize?: boolean;
+}
+
+interface MintState {
+  decimals: number;
+  programId: PublicKey;
+  supply: bigint;
+}
+
+interface TokenAccountState {
+  mint: string;
+  owner: string;
+  amount: bigint;
+  programId: PublicKey;
+}
+
+interface LedgerState {
+  lamports: Map<string, bigint>;
+  tokens: Map<string, TokenAccountState>;
+}
+
+interface LandedTransaction {
+  slot: number;
+  blockTime: number;
+  message: Message;
+  signatures: string[];
+  err: { InstructionError: [number, InstructionError] } | null;
+  fee: number;
+  preBalances: number[];
+  postBalances: number[];
+  preTokenBalances: TokenBalance[];
+  postTokenBalances: TokenBalance[];
+  logMessages: string[];
+  confirmationStatus: 'confirmed' | 'finalized';
+}
+
+interface TokenBalance {
+  accountIndex: number;
+  mint: string;
+  owner: string;
+  programId: string;
+  uiTokenAmount: {
+    amount: string;
+    decimals: number;
+    uiAmount: number;
+    uiAmountString: string;
+  };
+}
+
+/**
+ * A failed instruction; rolls back the transaction except for its fee
+ */
+class InstructionFailure extends Error {
+  constructor(
+    readonly error: InstructionError,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * In-process stand-in for a Solana cluster
+ *
+ * Executes signed transactions against an in-memory ledger of lamport and
+ * token balances and answers the subset of `Connection` methods the SDK
+ * uses, with the same response shapes. Supported instructions are system
+ * transfers, compute budget settings, associated token account creation and
+ * (checked) token transfers on both token programs. Pass `ledger.connection`
+ * wherever a Connection is expected.
+ *
+ * Every transaction lands in its own slot as soon as it is sent.
+ */
+export class FakeLedger {
+  readonly rpcEndpoint: string;
+  readonly commitment = 'confirmed';
+
+  private state: LedgerState = { lamports: new Map(), tokens: new Map() };
+  private mints = new Map<string, MintState>();
+  private transactions = new Map<string, LandedTransaction>();
+  private blockhashes = new Map<string, number>();
+  private slot = 1;
+  private faucet = Keypair.generate();
+  private feePerSignature: number;
+  private autoFinalize: boolean;
+
+  constructor(options: FakeLedgerOptions = {}) {
+    this.rpcEndpoint = `fake-ledger://${++instances}`;
+    this.feePerSignature = options.feePerSignature ?? DEFAULT_FEE_PER_SIGNATURE;
+    this.autoFinalize = options.autoFinalize ?? true;
+    this.state.lamports.set(this.faucet.publicKey.toBase58(), FAUCET_LAMPORTS);
+  }
+
+  /**
+   * This ledger typed as a Connection, for configs and SDK functions
+   */
+  get connection(): Connection {
+    return this as unknown as Connection;
+  }
+
+  /**
+   * Fund an address with SOL through a real (faucet-signed) transfer
+   */
+  async airdrop(address: Address, sol: number): Promise<string> {
+    return this.requestAirdrop(toPublicKey(address), Math.round(sol * LAMPORTS_PER_SOL));
+  }
+
+  /**
+   * Create a mint, at a fixed address (e.g. the USDC mint) or a random one
+   */
+  createMint(
+    options: { decimals: number; address?: Address; programId?: PublicKey }
+  ): PublicKey {
+    const address = options.address ? toPublicKey(options.address) : Keypair.generate().publicKey;
+    const programId = options.programId || TOKEN_PROGRAM_ID;
+    this.mints.set(address.toBase58(), {
+      decimals: options.decimals,
+      programId,
+      supply: BigInt(0),
+    });
+    this.state.lamports.set(address.toBase58(), BigInt(rentExempt(MINT_SIZE)));
+    return address;
+  }
+
+  /**
+   * Credit tokens to an owner's associated token account, creating it if needed
+   * `amount` is in whole tokens, e.g. 1.5 USDC.
+   */
+  mintTo(mint: Address, owner: Address, amount: number): PublicKey {
+    const mintKey = toPublicKey(mint);
+    const info = this.requireMint(mintKey.toBase58());
+    const account = getAssociatedTokenAddressSync(
+      mintKey,
+      toPublicKey(owner),
+      true,
+      info.programId
+    );
+    const units = toUnits(amount, info.decimals);
+
+    const existing = this.state.tokens.get(account.toBase58());
+    if (existing) {
+      existing.amount += units;
+    } else {
+      this.state.tokens.set(account.toBase58(), {
+        mint: mintKey.toBase58(),
+        owner: toPublicKey(owner).toBase58(),
+        amount: units,
+        programId: info.programId,
+      });
+      this.state.lamports.set(account.toBase58(), BigInt(rentExempt(ACCOUNT_SIZE)));
+    }
+    info.supply += units;
+    return account;
+  }
+
+  /**
+   * Lamports held by an address
+   */
+  lamportsOf(address: Address): bigint {
+    return this.state.lamports.get(toPublicKey(address).toBase58()) || BigInt(0);
+  }
+
+  /**
+   * Base units of a mint held by an owner across its token accounts
+   */
+  tokensOf(owner: Address, mint: Address): bigint {
+    const ownerKey = toPublicKey(owner).toBase58();
+    const mintKey = toPublicKey(mint).toBase58();
+    let total = BigInt(0);
+    for (const account of this.state.tokens.values()) {
+      if (account.owner === ownerKey && account.mint === mintKey) {
+        total += account.amount;
+      }
+    }
+    return total;
+  }
+
+  /**
+   * Move landed transactions from 'confirmed' to 'finalized'
+   */
+  finalize(): void {
+    for (const transaction of this.transactions.values()) {
+      transaction.confirmationStatus = 'finalized';
+    }
+  }
+
+  /**
+   * Produce empty slots, e.g. to expire blockhashes
+   */
+  advance(slots = 1): void {
+    this.slot += slots;
+  }
+
+  async getLatestBlockhash(
+    _commitment?: unknown
+  ): Promise<{ blockhash: string; lastValidBlockHeight: number }> {
+    const blockhash = bs58.encode(randomBytes(32));
+    const lastValidBlockHeight = this.slot + BLOCKHASH_VALIDITY;
+    this.blockhashes.set(blockhash, lastValidBlockHeight);
+    return { blockhash, lastValidBlockHeight };
+  }
+
+  async getBlockHeight(_commitment?: unknown): Promise<number> {
+    return this.slot;
+  }
+
+  async getSlot(_commitment?: unknown): Promise<number> {
+    return this.slot;
+  }
+
+  async getRecentPrioritizationFees(
+    _config?: unknown
+  ): Promise<Array<{ slot: number; prioritizationFee: number }>> {
+    return [];
+  }
+
+  async getMinimumBalanceForRentExemption(dataLength: number): Promise<number> {
+    return rentExempt(dataLength);
+  }
+
+  async requestAirdrop(to: PublicKey, lamports: number): Promise<string> {
+    const transaction = new Transaction().add(
+      SystemProgram.transfer({ fromPubkey: this.faucet.publicKey, toPubkey: to, lamports })
+    );
+    return this.sendTransaction(transaction, [this.faucet]);
+  }
+
+  /**
+   * Sign (when signers are given) and send a transaction
+   */
+  async sendTransaction(
+    transaction: Transaction,
+    signers: Keypair[] = [],
+    options: { skipPreflight?: boolean } = {}
+  ): Promise<string> {
+    if (signers.length) {
+      if (!transaction.recentBlockhash) {
+        transaction.recentBlockhash = (await this.getLatestBlockhash()).blockhash;
+      }
+      transaction.feePayer = transaction.feePayer || signers[0].publicKey;
+      transaction.sign(...signers);
+    }
+    return this.sendRawTransaction(transaction.serialize(), options);
+  }
+
+  /**
+   * Execute a serialized transaction
+   * With preflight, a transaction that would fail is rejected with a
+   * SendTransactionError and never lands. Without it, it lands with an
+   * error and pays its fee, like on a real cluster. Resending a landed
+   * transaction is a no-op.
+   */
+  async sendRawTransaction(
+    raw: Buffer | Uint8Array | number[],
+    options: { skipPreflight?: boolean } = {}
+  ): Promise<string> {
+    const transaction = Transaction.from(Buffer.from(raw as Uint8Array));
+    if (!transaction.signature) {
+      throw new Error('Transaction is not signed');
+    }
+    const signature = bs58.encode(transaction.signature);
+    if (this.transactions.has(signature)) {
+      return signature;
+    }
+
+    const reject = (message: string): never => {
+      throw new SendTransactionError({
+        action: 'send',
+        signature,
+        transactionMessage: message,
+        logs: [],
+      });
+    };
+
+    if (!transaction.verifySignatures()) {
+      reject('Transaction signature verification failure');
+    }
+    const lastValid = this.blockhashes.get(transaction.recentBlockhash || '');
+    if (lastValid === undefined || lastValid < this.slot) {
+      // A cluster silently drops expired transactions sent without preflight
+      if (options.skipPreflight) return signature;
+      reject('Blockhash not found');
+    }
+
+    const message = transaction.compileMessage();
+    const keys = message.accountKeys.map(key => key.toBase58());
+    const feePayer = keys[0];
+    const fee = this.computeFee(message, transaction.instructions);
+    if ((this.state.lamports.get(feePayer) || BigInt(0)) < BigInt(fee)) {
+      reject('Attempt to debit an account but found no record of a prior credit.');
+    }
+
+    const preBalances = keys.map(key => Number(this.state.lamports.get(key) || 0));
+    const preTokenBalances = this.tokenBalances(keys, this.state);
+
+    // Fees are charged even when the transaction fails
+    const charged = cloneState(this.state);
+    charged.lamports.set(feePayer, (charged.lamports.get(feePayer) as bigint) - BigInt(fee));
+
+    let err: LandedTransaction['err'] = null;
+    const logMessages: string[] = [];
+    let next = cloneState(charged);
+    for (let i = 0; i < transaction.instructions.length; i++) {
+      const instruction = transaction.instructions[i];
+      logMessages.push(`Program ${instruction.programId.toBase58()} invoke [1]`);
+      try {
+        this.execute(next, instruction);
+        logMessages.push(`Program ${instruction.programId.toBase58()} success`);
+      } catch (error) {
+        if (!(error instanceof InstructionFailure)) throw error;
+        logMessages.push(`Program ${instruction.programId.toBase58()} failed: ${error.message}`);
+        if (!options.skipPreflight) {
+          throw new SendTransactionError({
+            action: 'simulate',
+            signature,
+            transactionMessage: `Transaction simulation failed: Error processing Instruction ${i}: ${error.message}`,
+            logs: logMessages,
+          });
+        }
+        err = { InstructionError: [i, error.error] };
+        next = charged;
+        break;
+      }
+    }
+
+    this.state = next;
+    this.transactions.set(signature, {
+      slot: this.slot,
+      blockTime: Math.floor(Date.now() / 1000),
+      message,
+      signatures: transaction.signatures.map(s => (s.signature ? bs58.encode(s.signature) : '')),
+      err,
+      fee,
+      preBalances,
+      postBalances: keys.map(key => Number(this.state.lamports.get(key) || 0)),
+      preTokenBalances,
+      postTokenBalances: this.tokenBalances(keys, this.state),
+      logMessages,
+      confirmationStatus: this.autoFinalize ? 'finalized' : 'confirmed',
+    });
+    this.slot++;
+    return signature;
+  }
+
+  async confirmTransaction(
+    strategy: string | { signature: string }
+  ): Promise<{ context: { slot: number }; value: { err: unknown } }> {
+    const signature = typeof strategy === 'string' ? strategy : strategy.signature;
+    const landed = this.transactions.get(signature);
+    if (!landed) {
+      throw new Error(`Transaction ${signature} was not found`);
+    }
+    return { context: { slot: this.slot }, value: { err: landed.err } };
+  }
+
+  async getSignatureStatuses(
+    signatures: string[],
+    _config?: unknown
+  ): Promise<{ context: { slot: number }; value: Array<SignatureStatus | null> }> {
+    return {
+      context: { slot: this.slot },
+      value: signatures.map(signature => this.signatureStatus(signature)),
+    };
+  }
+
+  async getSignatureStatus(
+    signature: string,
+    _config?: unknown
+  ): Promise<{ context: { slot: number }; value: SignatureStatus | null }> {
+    return { context: { slot: this.slot }, value: this.signatureStatus(signature) };
+  }
+
+  /**
+   * Landed transaction in the shape of a VersionedTransactionResponse
+   * Returns null for 'finalized' lookups of transactions not finalized yet.
+   */
+  async getTransaction(
+    signature: string,
+    config: { commitment?: Commitment } = {}
+  ): Promise<unknown> {
+    const landed = this.transactions.get(signature);
+    if (!landed) return null;
+    if (config.commitment === 'finalized' && landed.confirmationStatus !== 'finalized') {
+      return null;
+    }
+
+    return {
+      slot: landed.slot,
+      blockTime: landed.blockTime,
+      version: 'legacy',
+      transaction: { message: landed.message, signatures: landed.signatures },
+      meta: {
+        err: landed.err,
+        fee: landed.fee,
+        preBalances: landed.preBalances,
+        postBalances: landed.postBalances,
+        preTokenBalances: landed.preTokenBalances,
+        postTokenBalances: landed.postTokenBalances,
+        logMessages: landed.logMessages,
+        innerInstructions: [],
+        loadedAddresses: { writable: [], readonly: [] },
+      },
+    };
+  }
+
+  async getBalance(address: PublicKey, _commitment?: unknown): Promise<number> {
+    return Number(this.lamportsOf(address));
+  }
+
+  /**
+   * Account data encoded like a real cluster's, so spl-token's getMint()
+   * and getAccount() read it back
+   */
+  async getAccountInfo(address: PublicKey, _commitment?: unknown): Promise<AccountInfo<Buffer> | null> {
+    const key = address.toBase58();
+    const lamports = Number(this.state.lamports.get(key) || 0);
+
+    const mint = this.mints.get(key);
+    if (mint) {
+      const data = Buffer.alloc(MINT_SIZE);
+      MintLayout.encode(
+        {
+          mintAuthorityOption: 1,
+          mintAuthority: this.faucet.publicKey,
+          supply: mint.supply,
+          decimals: mint.decimals,
+          isInitialized: true,
+          freezeAuthorityOption: 0,
+          freezeAuthority: PublicKey.default,
+        },
+        data
+      );
+      return { data, owner: mint.programId, lamports, executable: false, rentEpoch: 0 };
+    }
+
+    const token = this.state.tokens.get(key);
+    if (token) {
+      const data = Buffer.alloc(ACCOUNT_SIZE);
+      AccountLayout.encode(
+        {
+          mint: new PublicKey(token.mint),
+          owner: new PublicKey(token.owner),
+          amount: token.amount,
+          delegateOption: 0,
+          delegate: PublicKey.default,
+          state: AccountState.Initialized,
+          isNativeOption: 0,
+          isNative: BigInt(0),
+          delegatedAmount: BigInt(0),
+          closeAuthorityOption: 0,
+          closeAuthority: PublicKey.default,
+        },
+        data
+      );
+      return { data, owner: token.programId, lamports, executable: false, rentEpoch: 0 };
+    }
+
+    if (!lamports) return null;
+    return {
+      data: Buffer.alloc(0),
+      owner: SystemProgram.programId,
+      lamports,
+      executable: false,
+      rentEpoch: 0,
+    };
+  }
+
+  async getParsedTokenAccountsByOwner(
+    owner: PublicKey,
+    filter: { mint: PublicKey } | { programId: PublicKey }
+  ): Promise<{ context: { slot: number }; value: unknown[] }> {
+    const value = [];
+    for (const [address, account] of this.state.tokens) {
+      if (account.owner !== owner.toBase58()) continue;
+      if ('mint' in filter && account.mint !== filter.mint.toBase58()) continue;
+      if ('programId' in filter && !account.programId.equals(filter.programId)) continue;
+
+      value.push({
+        pubkey: new PublicKey(address),
+        account: {
+          data: {
+            program: account.programId.equals(TOKEN_PROGRAM_ID) ? 'spl-token' : 'spl-token-2022',
+            parsed: {
+              type: 'account',
+              info: {
+                mint: account.mint,
+                owner: account.owner,
+                state: 'initialized',
+                isNative: false,
+                tokenAmount: uiTokenAmount(account.amount, this.requireMint(account.mint).decimals),
+              },
+            },
+            space: ACCOUNT_SIZE,
+          },
+          executable: false,
+          lamports: Number(this.state.lamports.get(address) || 0),
+          owner: account.programId,
+          rentEpoch: 0,
+        },
+      });
+    }
+    return { context: { slot: this.slot }, value };
+  }
+
+  async getTokenAccountBalance(
+    address: PublicKey
+  ): Promise<{ context: { slot: number }; value: TokenBalance['uiTokenAmount'] }> {
+    const account = this.state.tokens.get(address.toBase58());
+    if (!account) {
+      throw new Error(`Account ${address.toBase58()} is not a token account`);
+    }
+    return {
+      context: { slot: this.slot },
+      value: uiTokenAmount(account.amount, this.requireMint(account.mint).decimals),
+    };
+  }
+
+  private signatureStatus(signature: string): SignatureStatus | null {
+    const landed = this.transactions.get(signature);
+    if (!landed) return null;
+    return {
+      slot: landed.slot,
+      confirmations: landed.confirmationStatus === 'finalized' ? null : 1,
+      err: landed.err,
+      confirmationStatus: landed.confirmationStatus,
+    };
+  }
+
+  /**
+   * Base fee per signature plus the priority fee for the requested units
+   */
+  private computeFee(message: Message, instructions: TransactionInstruction[]): number {
+    let units: number | undefined;
+    let microLamports = BigInt(0);
+    for (const instruction of instructions) {
+      if (!instruction.programId.equals(ComputeBudgetProgram.programId)) continue;
+      const type = ComputeBudgetInstruction.decodeInstructionType(instruction);
+      if (type === 'SetComputeUnitLimit') {
+        units = ComputeBudgetInstruction.decodeSetComputeUnitLimit(instruction).units;
+      } else if (type === 'SetComputeUnitPrice') {
+        microLamports = BigInt(ComputeBudgetInstruction.decodeSetComputeUnitPrice(instruction).microLamports);
+      }
+    }
+
+    const budget = BigInt(units ?? DEFAULT_COMPUTE_UNITS * instructions.length);
+    const priority = (microLamports * budget + BigInt(999_999)) / BigInt(1_000_000);
+    return message.header.numRequiredSignatures * this.feePerSignature + Number(priority);
+  }
+
+  private execute(state: LedgerState, instruction: TransactionInstruction): void {
+    const program = instruction.programId;
+
+    if (program.equals(ComputeBudgetProgram.programId)) {
+      return;
+    }
+    if (program.equals(SystemProgram.programId)) {
+      return this.executeSystem(state, instruction);
+    }
+    if (program.equals(ASSOCIATED_TOKEN_PROGRAM_ID)) {
+      return this.executeCreateAccount(state, instruction);
+    }
+    if (program.equals(TOKEN_PROGRAM_ID) || program.equals(TOKEN_2022_PROGRAM_ID)) {
+      return this.executeToken(state, instruction);
+    }
+    throw new InstructionFailure('UnsupportedProgramId', `Program ${program.toBase58()} is not supported`);
+  }
+
+  private executeSystem(state: LedgerState, instruction: TransactionInstruction): void {
+    if (SystemInstruction.decodeInstructionType(instruction) !== 'Transfer') {
+      throw new InstructionFailure('InvalidInstructionData', 'Only system transfers are supported');
+    }
+    const { fromPubkey, toPubkey, lamports } = SystemInstruction.decodeTransfer(instruction);
+    requireSigner(instruction, fromPubkey);
+    debit(state, fromPubkey.toBase58(), BigInt(lamports));
+    credit(state, toPubkey.toBase58(), BigInt(lamports));
+  }
+
+  private executeCreateAccount(state: LedgerState, instruction: TransactionInstruction): void {
+    const [payer, account, owner, mint, , tokenProgram] = instruction.keys.map(k => k.pubkey);
+    const idempotent = instruction.data.length > 0 && instruction.data[0] === 1;
+    requireSigner(instruction, payer);
+
+    const info = this.mints.get(mint.toBase58());
+    if (!info || !info.programId.equals(tokenProgram)) {
+      throw new InstructionFailure('InvalidAccountData', `Mint ${mint.toBase58()} does not exist`);
+    }
+    const expected = getAssociatedTokenAddressSync(mint, owner, true, tokenProgram);
+    if (!expected.equals(account)) {
+      throw new InstructionFailure('InvalidSeeds', 'Not the associated token account address');
+    }
+
+    const existing = state.tokens.get(account.toBase58());
+    if (existing) {
+      if (idempotent && existing.owner === owner.toBase58() && existing.mint === mint.toBase58()) {
+        return;
+      }
+      throw new InstructionFailure(ACCOUNT_EXISTS, 'Account already in use');
+    }
+
+    const rent = BigInt(rentExempt(ACCOUNT_SIZE));
+    debit(state, payer.toBase58(), rent);
+    credit(state, account.toBase58(), rent);
+    state.tokens.set(account.toBase58(), {
+      mint: mint.toBase58(),
+      owner: owner.toBase58(),
+      amount: BigInt(0),
+      programId: tokenProgram,
+    });
+  }
+
+  private executeToken(state: LedgerState, instruction: TransactionInstruction): void {
+    const programId = instruction.programId;
+    let source: PublicKey;
+    let destination: PublicKey;
+    let owner: PublicKey;
+    let amount: bigint;
+    let mint: PublicKey | undefined;
+    let decimals: number | undefined;
+
+    if (instruction.data[0] === TokenInstruction.TransferChecked) {
+      const { keys, data } = decodeTransferCheckedInstruction(instruction, programId);
+      source = keys.source.pubkey;
+      destination = keys.destination.pubkey;
+      owner = keys.owner.pubkey;
+      mint = keys.mint.pubkey;
+      amount = data.amount;
+      decimals = data.decimals;
+    } else if (instruction.data[0] === TokenInstruction.Transfer) {
+      const { keys, data } = decodeTransferInstruction(instruction, programId);
+      source = keys.source.pubkey;
+      destination = keys.destination.pubkey;
+      owner = keys.owner.pubkey;
+      amount = data.amount;
+    } else {
+      throw new InstructionFailure('InvalidInstructionData', 'Only token transfers are supported');
+    }
+
+    const from = state.tokens.get(source.toBase58());
+    const to = state.tokens.get(destination.toBase58());
+    if (!from || !to || !from.programId.equals(programId) || !to.programId.equals(programId)) {
+      throw new InstructionFailure('InvalidAccountData', 'Token account does not exist');
+    }
+    if (from.mint !== to.mint || (mint && !mint.equals(new PublicKey(from.mint)))) {
+      throw new InstructionFailure(MINT_MISMATCH, 'Account not associated with this Mint');
+    }
+    if (decimals !== undefined && decimals !== this.requireMint(from.mint).decimals) {
+      throw new InstructionFailure(DECIMALS_MISMATCH, 'The provided decimals value different from the Mint decimals');
+    }
+    if (from.owner !== owner.toBase58()) {
+      throw new InstructionFailure(OWNER_MISMATCH, 'Owner does not match');
+    }
+    requireSigner(instruction, owner);
+    if (from.amount < amount) {
+      throw new InstructionFailure(INSUFFICIENT_FUNDS, 'Insufficient funds');
+    }
+
+    from.amount -= amount;
+    to.amount += amount;
+  }
+
+  private tokenBalances(keys: string[], state: LedgerState): TokenBalance[] {
+    const balances: TokenBalance[] = [];
+    keys.forEach((key, accountIndex) => {
+      const account = state.tokens.get(key);
+      if (!account) return;
+      balances.push({
+        accountIndex,
+        mint: account.mint,
+        owner: account.owner,
+        programId: account.programId.toBase58(),
+        uiTokenAmount: uiTokenAmount(account.amount, this.requireMint(account.mint).decimals),
+      });
+    });
+    return balances;
+  }
+
+  private requireMint(mint: string): MintState {
+    const info = this.mints.get(mint);
+    if (!info) {
+      throw new Error(`Mint ${mint} does not exist; create it with createMint()`);
+    }
+    return info;
+  }
+}
+
+interface SignatureStatus {
+  slot: number;
+  confirmations: number | null;
+  err: unknown;
+  confirmationStatus: 'confirmed' | 'finalized';
+}
+
+function toPublicKey(address: Address): PublicKey {
+  return typeof address === 'string' ? new PublicKey(address) : address;
+}
+
+function toUnits(amount: number, decimals: number): bigint {
+  const [whole, fraction = ''] = amount.toFixed(decimals).split('.');
+  return BigInt(whole + fraction);
+}
+
+function uiTokenAmount(amount: bigint, decimals: number): TokenBalance['uiTokenAmount'] {
+  const padded = amount.toString().padStart(decimals + 1, '0');
+  const whole = padded.slice(0, padded.length - decimals);
+  const fraction = padded.slice(padded.length - decimals).replace(/0+$/, '');
+  const uiAmountString = fraction ? `${whole}.${fraction}` : whole;
+  return {
+    amount: amount.toString(),
+    decimals,
+    uiAmount: Number(uiAmountString),
+    uiAmountString,
+  };
+}
+
+/** Rent-exempt minimum for an account of `size` bytes, as on mainnet */
+function rentExempt(size: number): number {
+  return (128 + size) * 6960;
+}
+
+function cloneState(state: LedgerState): LedgerState {
+  return {
+    lamports: new Map(state.lamports),
+    tokens: new Map([...state.tokens].map(([key, account]) => [key, { ...account }])),
+  };
+}
+
+function requireSigner(instruction: TransactionInstruction, key: PublicKey): void {
+  if (!instruction.keys.some(k => k.isSigner && k.pubkey.equals(key))) {
+    throw new InstructionFailure('MissingRequiredSignature', `${key.toBase58()} did not sign`);
+  }
+}
+
+function debit(state: LedgerState, address: string, lamports: bigint): void {
+  const balance = state.lamports.get(address) || BigInt(0);
+  if (balance < lamports) {
+    throw new InstructionFailure(INSUFFICIENT_FUNDS, `Insufficient lamports ${balance}, need ${lamports}`);
+  }
+  state.lamports.set(address, balance - lamports);
+}
+
+function credit(state: LedgerState, address: string, lamports: bigint): void {
+  state.lamports.set(address, (state.lamports.get(address) || BigInt(0)) + lamports);
+}
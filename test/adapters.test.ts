@@ -0,0 +1,314 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type IncomingMessage, type RequestListener } from 'http';
+import type { AddressInfo } from 'net';
+import { Keypair } from '@solana/web3.js';
+import { DNS402Client } from '../src/client/client';
+import { signNotification } from '../src/core/challenge';
+import { KeypairSigner } from '../src/core/signer';
+import { DNS402_HEADERS, type DNS402ServerConfig } from '../src/core/types';
+import {
+  dns402Fastify,
+  dns402Fetch,
+  dns402Hono,
+  dns402Koa,
+  dns402Node,
+  type FastifyReplyLike,
+  type HonoContextLike,
+} from '../src/server/adapters';
+import { createDNSRecord } from '../src/server/middleware';
+import { MemoryReplayStore } from '../src/server/replay';
+import { FakeLedger, StubResolver } from '../src/testing';
+
+const terms = { price: 0.001, currency: 'SOL', model: 'session', callbackPath: '/dns402/callback' } as const;
+const domain = '127.0.0.1';
+// 30 bytes: the second response uses up a 40 byte budget
+const content = 'x'.repeat(30);
+
+const ledger = new FakeLedger();
+const merchant = Keypair.generate();
+const payer = Keypair.generate();
+
+before(() => ledger.airdrop(payer.publicKey, 1));
+
+function config(overrides: Partial<DNS402ServerConfig> = {}): DNS402ServerConfig {
+  return { ...terms, wallet: merchant.publicKey.toBase58(), connection: ledger.connection, ...overrides };
+}
+
+/**
+ * A client with no session yet, paying up to the price automatically;
+ * its record advertises `callback` when given
+ */
+function payingClient(callback?: string): DNS402Client {
+  const resolver = new StubResolver();
+  resolver.setRecord(
+    domain,
+    createDNSRecord({
+      price: terms.price,
+      currency: terms.currency,
+      model: terms.model,
+      wallet: merchant.publicKey.toBase58(),
+      callback,
+    })
+  );
+  return new DNS402Client({
+    keypair: payer.secretKey,
+    connection: ledger.connection,
+    resolver,
+    submission: { rebroadcastInterval: 5 },
+    sessionCache: true,
+    autoPay: { enabled: true, maxAmount: terms.price, currency: 'SOL' },
+  });
+}
+
+/**
+ * Serve `listener` on a random local port
+ */
+async function listen(listener: RequestListener): Promise<{ url: string; close(): void }> {
+  const server = createServer(listener);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    close: () => {
+      server.closeAllConnections();
+      server.close();
+    },
+  };
+}
+
+/**
+ * Bridge Node's `http` to a Fetch API handler, as edge runtimes do
+ */
+function serveFetch(handler: (request: Request) => Promise<Response>): RequestListener {
+  return async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk);
+
+    const response = await handler(
+      new Request(`http://${req.headers.host}${req.url}`, {
+        method: req.method,
+        headers: req.headers as Record<string, string>,
+        body: chunks.length ? Buffer.concat(chunks) : undefined,
+      })
+    );
+    const body = Buffer.from(await response.arrayBuffer());
+    res.writeHead(response.status, Object.fromEntries(response.headers));
+    res.end(body);
+  };
+}
+
+const servers: Record<string, (config: DNS402ServerConfig) => RequestListener> = {
+  dns402Node: config => {
+    const guard = dns402Node(config);
+    return async (req, res) => {
+      if (!(await guard(req, res))) return;
+      res.end(content);
+    };
+  },
+  dns402Fetch: config => serveFetch(dns402Fetch(config, () => new Response(content))),
+};
+
+for (const [name, serve] of Object.entries(servers)) {
+  describe(name, () => {
+    it('pays a 402, notifies the callback and meters the session', async () => {
+      const replayStore = new MemoryReplayStore();
+      const app = await listen(serve(config({ replayStore, quota: { maxBytes: 40 } })));
+
+      try {
+        const unpaid = await fetch(`${app.url}/report`);
+        assert.equal(unpaid.status, 402);
+        assert.ok(unpaid.headers.get(DNS402_HEADERS.CHALLENGE));
+        await unpaid.text();
+
+        const client = payingClient(`${app.url}${terms.callbackPath}`);
+        const paid = await client.fetch(`${app.url}/report`);
+        assert.equal(paid.status, 200);
+        assert.equal(await paid.text(), content);
+        const session = client.getSession(domain);
+        assert.ok(session);
+        assert.ok(await replayStore.has(`notified:${session.proof.signature}`));
+
+        const headers = { [DNS402_HEADERS.TOKEN]: paid.headers.get(DNS402_HEADERS.TOKEN) as string };
+        assert.ok(headers[DNS402_HEADERS.TOKEN]);
+        const second = await fetch(`${app.url}/report`, { headers });
+        assert.equal(second.status, 200);
+        await second.text();
+
+        const spent = await fetch(`${app.url}/report`, { headers });
+        assert.equal(spent.status, 402);
+        assert.equal(((await spent.json()) as { error: string }).error, 'Quota exhausted');
+      } finally {
+        app.close();
+      }
+    });
+  });
+}
+
+interface StubRequest {
+  method: string;
+  path: string;
+  headers?: Record<string, string>;
+  /** Body as the framework's body parser hands it over */
+  body?: unknown;
+}
+
+interface StubOutcome {
+  /** Whether the request was passed on to the handlers */
+  passed: boolean;
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+type StubDriver = (config: DNS402ServerConfig) => (request: StubRequest) => Promise<StubOutcome>;
+
+function lowercase(headers: Record<string, string> = {}): Record<string, string> {
+  return Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+}
+
+/**
+ * Run each adapter against a stand-in for its framework's request context
+ */
+const drivers: Record<string, StubDriver> = {
+  dns402Koa: config => {
+    const middleware = dns402Koa(config);
+    return async request => {
+      const headers = lowercase(request.headers);
+      const outcome: StubOutcome = { passed: false, status: 404, headers: {}, body: undefined };
+      const ctx = {
+        method: request.method,
+        path: request.path,
+        hostname: domain,
+        status: 404,
+        body: undefined as unknown,
+        request: { body: request.body },
+        req: {} as IncomingMessage,
+        get: (field: string) => headers[field.toLowerCase()] || '',
+        set: (field: string, value: string) => void (outcome.headers[field] = value),
+      };
+      await middleware(ctx, async () => {
+        outcome.passed = true;
+        ctx.status = 200;
+        ctx.body = content;
+      });
+      return { ...outcome, status: ctx.status, body: ctx.body };
+    };
+  },
+
+  dns402Fastify: config => {
+    const hook = dns402Fastify(config);
+    return async request => {
+      const outcome: StubOutcome = { passed: true, status: 200, headers: {}, body: content };
+      const reply: FastifyReplyLike = {
+        code: statusCode => {
+          outcome.status = statusCode;
+          return reply;
+        },
+        header: (name, value) => {
+          outcome.headers[name] = value;
+          return reply;
+        },
+        send: payload => {
+          outcome.passed = false;
+          outcome.body = payload;
+          return reply;
+        },
+      };
+      await hook(
+        {
+          method: request.method,
+          url: request.path,
+          hostname: domain,
+          headers: lowercase(request.headers),
+          body: request.body,
+        },
+        reply
+      );
+      return outcome;
+    };
+  },
+
+  dns402Hono: config => {
+    const middleware = dns402Hono(config);
+    return async request => {
+      const headers = lowercase(request.headers);
+      const outcome: StubOutcome = { passed: false, status: 404, headers: {}, body: undefined };
+      const c: HonoContextLike = {
+        req: {
+          method: request.method,
+          path: request.path,
+          url: `http://${domain}${request.path}`,
+          header: name => headers[name.toLowerCase()],
+          json: async () => request.body,
+        },
+        header: (name, value) => void (outcome.headers[name] = value),
+        json: (body, status) => Response.json(body, { status }),
+      };
+      const response = await middleware(c, async () => {
+        outcome.passed = true;
+        c.res = new Response(content);
+      });
+      const sent = response || (c.res as Response);
+      const body = await sent.text();
+      return { ...outcome, status: sent.status, body: response ? JSON.parse(body) : body };
+    };
+  },
+};
+
+for (const [name, driver] of Object.entries(drivers)) {
+  describe(name, () => {
+    it('answers an unpaid request with 402 and the payment terms', async () => {
+      const paywall = driver(config());
+
+      const outcome = await paywall({ method: 'GET', path: '/report' });
+
+      assert.equal(outcome.passed, false);
+      assert.equal(outcome.status, 402);
+      assert.equal(outcome.headers[DNS402_HEADERS.PRICE], '0.001');
+      assert.equal(outcome.headers[DNS402_HEADERS.WALLET], merchant.publicKey.toBase58());
+      assert.ok(outcome.headers[DNS402_HEADERS.CHALLENGE]);
+    });
+
+    it('passes a paid request on and hands out a session token', async () => {
+      const paywall = driver(config());
+      const unpaid = await paywall({ method: 'GET', path: '/report' });
+      const client = payingClient();
+      const session = await client.pay(domain, unpaid.headers[DNS402_HEADERS.CHALLENGE]);
+
+      const paid = await paywall({ method: 'GET', path: '/report', headers: client.sessionHeaders(session) });
+      assert.equal(paid.passed, true);
+      assert.equal(paid.body, content);
+      const token = paid.headers[DNS402_HEADERS.TOKEN];
+      assert.ok(token);
+
+      const again = await paywall({ method: 'GET', path: '/report', headers: { [DNS402_HEADERS.TOKEN]: token } });
+      assert.equal(again.passed, true);
+    });
+
+    it('redeems a payment notification from the parsed body', async () => {
+      const replayStore = new MemoryReplayStore();
+      const paywall = driver(config({ replayStore }));
+      const session = await payingClient().pay(domain);
+      const notification = await signNotification(KeypairSigner.fromSecretKey(payer.secretKey), {
+        domain,
+        method: 'GET',
+        path: '/report',
+        signature: session.proof.signature,
+        currency: 'SOL',
+        timestamp: Date.now(),
+      });
+
+      const outcome = await paywall({
+        method: 'POST',
+        path: terms.callbackPath,
+        headers: { 'content-type': 'application/json' },
+        body: notification,
+      });
+
+      assert.equal(outcome.passed, false);
+      assert.equal(outcome.status, 200);
+      assert.deepEqual(outcome.body, { accepted: true });
+      assert.ok(await replayStore.has(`notified:${session.proof.signature}`));
+    });
+  });
+}
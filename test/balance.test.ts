@@ -0,0 +1,51 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileBalanceStore, MemoryBalanceStore } from '../src/server/balance';
+
+describe('MemoryBalanceStore', () => {
+  it('credits, debits and refuses overdrafts', async () => {
+    const store = new MemoryBalanceStore();
+
+    assert.equal(await store.credit('alice', 0.1), 0.1);
+    assert.equal(await store.credit('alice', 0.2), 0.3);
+    assert.deepEqual(await store.debit('alice', 0.25), { debited: true, balance: 0.05 });
+    assert.deepEqual(await store.debit('alice', 0.06), { debited: false, balance: 0.05 });
+    assert.equal(await store.get('bob'), 0);
+  });
+
+  it('does not let concurrent debits overdraw', async () => {
+    const store = new MemoryBalanceStore();
+    await store.credit('alice', 1);
+
+    const results = await Promise.all(Array.from({ length: 5 }, () => store.debit('alice', 0.3)));
+
+    assert.equal(results.filter(r => r.debited).length, 3);
+    assert.equal(await store.get('alice'), 0.1);
+  });
+});
+
+describe('FileBalanceStore', () => {
+  it('keeps balances across instances and compacts the file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'dns402-'));
+    const path = join(dir, 'balances.log');
+    try {
+      const store = new FileBalanceStore(path);
+      await store.credit('alice', 1);
+      await store.debit('alice', 0.4);
+      await store.credit('bob', 2);
+
+      const reopened = new FileBalanceStore(path);
+      assert.equal(await reopened.get('alice'), 0.6);
+      assert.equal(await reopened.get('bob'), 2);
+      assert.equal(await readFile(path, 'utf8'), 'alice 0.6\nbob 2\n');
+
+      const results = await Promise.all(Array.from({ length: 3 }, () => reopened.debit('alice', 0.25)));
+      assert.equal(results.filter(r => r.debited).length, 2);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
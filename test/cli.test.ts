@@ -0,0 +1,175 @@
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from 'child_process';
+import { createServer } from 'http';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import type { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Keypair } from '@solana/web3.js';
+import { ledger } from '../src/cli/ledger';
+import { recordCheck, recordGenerate } from '../src/cli/record';
+import { UsageError } from '../src/cli/util';
+
+const wallet = Keypair.generate().publicKey.toBase58();
+
+let dir: string;
+before(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'dns402-'));
+});
+after(() => rm(dir, { recursive: true, force: true }));
+
+/** TXT records the DoH stub answers with, for any name */
+let published: string[] = [];
+
+/**
+ * dns-json endpoint serving `published` as DNSSEC-validated answers
+ */
+const server = createServer((req, res) => {
+  const name = new URL(req.url as string, 'http://stub').searchParams.get('name');
+  res.writeHead(200, { 'content-type': 'application/dns-json' });
+  res.end(
+    JSON.stringify({
+      Status: 0,
+      AD: true,
+      Answer: published.map(txt => ({
+        name,
+        type: 16,
+        TTL: 300,
+        // Character-strings hold at most 255 bytes
+        data: (txt.match(/.{1,255}/g) || []).map(chunk => `"${chunk}"`).join(' '),
+      })),
+    })
+  );
+});
+const endpoint = new Promise<string>(resolve =>
+  server.listen(0, '127.0.0.1', () =>
+    resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}/dns-query`)
+  )
+);
+after(() => server.close());
+
+/**
+ * Capture what a command prints to stdout and stderr
+ */
+let output: { log: string[]; error: string[] };
+beforeEach(() => {
+  output = { log: [], error: [] };
+  mock.method(console, 'log', (line: unknown) => output.log.push(String(line)));
+  mock.method(console, 'error', (line: unknown) => output.error.push(String(line)));
+});
+afterEach(() => mock.restoreAll());
+
+describe('dns402 record generate', () => {
+  it('prints the record value', async () => {
+    const code = await recordGenerate(['--wallet', wallet, '--price', '0.01', '--currency', 'usdc']);
+
+    assert.equal(code, 0);
+    assert.match(output.log[0], new RegExp(`^v=dns402;p=0.01;c=USDC;n=solana;w=${wallet}`));
+  });
+
+  it('refuses missing and malformed flags', async () => {
+    const usage = (error: unknown) => error instanceof UsageError;
+
+    await assert.rejects(recordGenerate(['--price', '0.01', '--currency', 'SOL']), /--wallet is required/);
+    await assert.rejects(
+      recordGenerate(['--wallet', wallet, '--price', 'cheap', '--currency', 'SOL']),
+      /--price must be a number/
+    );
+    await assert.rejects(
+      recordGenerate(['--wallet', wallet, '--price', '1', '--currency', 'SOL', '--model', 'forever']),
+      usage
+    );
+    await assert.rejects(
+      recordGenerate(['--wallet', wallet, '--price', '1', '--currency', 'SOL', '--offer', '1']),
+      /--offer must be price:currency/
+    );
+    await assert.rejects(
+      recordGenerate(['--wallet', wallet, '--price', '1', '--currency', 'SOL', '--colour', 'red']),
+      (error: { code?: string }) => error.code === 'ERR_PARSE_ARGS_UNKNOWN_OPTION'
+    );
+  });
+
+  it('refuses a record that record check would reject', async () => {
+    const invalid = [
+      ['--wallet', 'not-a-wallet', '--price', '1', '--currency', 'SOL'],
+      ['--wallet', wallet, '--price', '1', '--currency', 'BONK'],
+      ['--wallet', wallet, '--price', '0', '--currency', 'SOL'],
+    ];
+
+    for (const args of invalid) {
+      assert.equal(await recordGenerate(args), 1);
+    }
+    assert.deepEqual(output.log, []);
+    assert.deepEqual(output.error, [
+      'error: Wallet not-a-wallet is not a valid Solana address',
+      'error: Currency BONK needs a mint',
+      'error: Price must be a positive number, got 0',
+    ]);
+  });
+});
+
+describe('dns402 record check', () => {
+  afterEach(() => {
+    published = [];
+  });
+
+  it('passes a signed record made by record generate', async () => {
+    const keyFile = join(dir, 'authority.json');
+    await writeFile(keyFile, JSON.stringify(Array.from(Keypair.generate().secretKey)));
+    const flags = { wallet, price: '0.01', currency: 'SOL', ttl: '600', offer: '1:USDC', 'sign-key': keyFile };
+    await recordGenerate(Object.entries(flags).flatMap(([name, value]) => [`--${name}`, value]));
+    published = [output.log[0]];
+    output.log = [];
+
+    const code = await recordCheck(['example.com', '--doh', await endpoint, '--json']);
+
+    assert.equal(code, 0);
+    const result = JSON.parse(output.log[0]) as {
+      errors: string[];
+      warnings: string[];
+      record: { price: number; wallet: string; verified: boolean };
+    };
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(result.warnings, []);
+    assert.equal(result.record.price, 0.01);
+    assert.equal(result.record.wallet, wallet);
+    assert.equal(result.record.verified, true);
+  });
+
+  it('fails on a missing or tampered record', async () => {
+    assert.equal(await recordCheck(['example.com', '--doh', await endpoint]), 1);
+    assert.ok(output.log.includes('error: No TXT records at _402.example.com'));
+
+    published = [`v=dns402;p=0.01;c=SOL;n=solana;w=${wallet};sig=forged`];
+    output.log = [];
+    assert.equal(await recordCheck(['example.com', '--doh', await endpoint]), 1);
+    assert.ok(output.log.includes('error: Record signature does not match its contents'));
+  });
+
+  it('needs a domain', async () => {
+    await assert.rejects(recordCheck([]), /record check needs a domain/);
+  });
+});
+
+describe('dns402 ledger', () => {
+  it('refuses an unknown entry type', async () => {
+    await assert.rejects(ledger([join(dir, 'payments.jsonl'), '--type', 'refund']), /--type must be one of/);
+  });
+
+  it('reports a missing ledger file with exit code 1', async () => {
+    const missing = join(dir, 'missing.jsonl');
+
+    const { code, stderr } = await new Promise<{ code: number | null; stderr: string }>(resolve =>
+      execFile(
+        process.execPath,
+        ['--import', 'tsx', 'src/cli/index.ts', 'ledger', missing],
+        { timeout: 30_000 },
+        (error, _stdout, stderr) => resolve({ code: error ? (error.code as number) : 0, stderr })
+      )
+    );
+
+    assert.equal(code, 1);
+    assert.equal(stderr.trim(), `dns402: No ledger file at ${missing}`);
+  });
+});
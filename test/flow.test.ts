@@ -0,0 +1,919 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import type { Request, Response } from 'express';
+import { DNS402Client } from '../src/client/client';
+import { MemoryLedger } from '../src/client/ledger';
+import { OfferMismatchError, RecordSignatureError } from '../src/client/errors';
+import { signChallenge, signNotification } from '../src/core/challenge';
+import { KeypairSigner } from '../src/core/signer';
+import { MemoryBalanceStore } from '../src/server/balance';
+import { MemoryReplayStore } from '../src/server/replay';
+import { createDNSRecord, dns402 } from '../src/server/middleware';
+import {
+  DNS402_HEADERS,
+  USDC_MINTS,
+  type DNS402ServerConfig,
+  type DNS402Session,
+  type PaywallEvents,
+} from '../src/core/types';
+import { DNS402Emitter } from '../src/core/events';
+import { DNS402Metrics } from '../src/metrics';
+import { waitForFinality } from '../src/core/solana';
+import {
+  FakeLedger,
+  StubResolver,
+  createTestApp,
+  type FakeLedgerOptions,
+  type TestApp,
+} from '../src/testing';
+
+// Payments land instantly on the fake ledger; poll for them right away
+const submission = { rebroadcastInterval: 5 };
+
+interface Fixture {
+  ledger: FakeLedger;
+  resolver: StubResolver;
+  server: TestApp;
+  merchant: Keypair;
+  payer: Keypair;
+  client: (overrides?: Partial<ConstructorParameters<typeof DNS402Client>[0]>) => DNS402Client;
+}
+
+async function setup(
+  paywall: Omit<DNS402ServerConfig, 'wallet'>,
+  ledgerOptions?: FakeLedgerOptions
+): Promise<Fixture> {
+  const ledger = new FakeLedger(ledgerOptions);
+  const resolver = new StubResolver();
+  const merchant = Keypair.generate();
+  const payer = Keypair.generate();
+  await ledger.airdrop(payer.publicKey, 1);
+
+  const config = { ...paywall, wallet: merchant.publicKey.toBase58() };
+  const server = await createTestApp({ paywall: config, ledger });
+  resolver.setRecord(server.domain, createDNSRecord(config));
+
+  return {
+    ledger,
+    resolver,
+    server,
+    merchant,
+    payer,
+    client: overrides =>
+      new DNS402Client({
+        keypair: payer.secretKey,
+        connection: ledger.connection,
+        resolver,
+        submission,
+        autoPay: { enabled: true, maxAmount: 1, currency: paywall.currency },
+        ...overrides,
+      }),
+  };
+}
+
+/**
+ * Pay for a session by hand and return its token
+ */
+async function sessionToken(fixture: Fixture): Promise<string> {
+  const client = fixture.client({ autoPay: undefined });
+  const unpaid = await fetch(`${fixture.server.url}/paid/report`);
+  const session = await client.pay(
+    fixture.server.domain,
+    unpaid.headers.get(DNS402_HEADERS.CHALLENGE) || undefined
+  );
+
+  const paid = await fetch(`${fixture.server.url}/paid/report`, { headers: client.sessionHeaders(session) });
+  assert.equal(paid.status, 200);
+  await paid.text();
+  return paid.headers.get(DNS402_HEADERS.TOKEN) as string;
+}
+
+describe('402 → pay → retry with SOL sessions', () => {
+  let fixture: Fixture;
+
+  before(async () => {
+    fixture = await setup({ price: 0.001, currency: 'SOL', model: 'session' });
+  });
+  after(() => fixture.server.close());
+
+  it('answers unpaid requests with 402 and the payment terms', async () => {
+    const response = await fetch(`${fixture.server.url}/paid/report`);
+
+    assert.equal(response.status, 402);
+    assert.equal(response.headers.get(DNS402_HEADERS.PRICE), '0.001');
+    assert.equal(response.headers.get(DNS402_HEADERS.CURRENCY), 'SOL');
+    assert.equal(response.headers.get(DNS402_HEADERS.WALLET), fixture.merchant.publicKey.toBase58());
+    assert.ok(response.headers.get(DNS402_HEADERS.CHALLENGE));
+    assert.equal(fixture.server.served.length, 0);
+  });
+
+  it('lets free routes through', async () => {
+    const response = await fetch(`${fixture.server.url}/free`);
+    assert.equal(response.status, 200);
+  });
+
+  it('pays once and reuses the session', async () => {
+    const ledger = new MemoryLedger();
+    const client = fixture.client({ sessionCache: true, ledger });
+
+    const first = await client.fetch(`${fixture.server.url}/paid/report`);
+    assert.equal(first.status, 200);
+    assert.deepEqual(await first.json(), {
+      paid: true,
+      method: 'GET',
+      path: '/paid/report',
+    });
+
+    const second = await client.fetch(`${fixture.server.url}/paid/other`);
+    assert.equal(second.status, 200);
+
+    const payments = await ledger.query({ type: 'payment_success' });
+    assert.equal(payments.length, 1);
+    assert.equal(fixture.ledger.lamportsOf(fixture.merchant.publicKey), BigInt(0.001 * LAMPORTS_PER_SOL));
+    assert.deepEqual(
+      fixture.server.served.map(r => r.path),
+      ['/paid/report', '/paid/other']
+    );
+  });
+
+  it('records the payment on chain with the payer as signer', async () => {
+    const ledger = new MemoryLedger();
+    const client = fixture.client({ ledger });
+    await client.fetch(`${fixture.server.url}/paid/report`);
+
+    const [success] = await ledger.query({ type: 'payment_success' });
+    const tx = (await fixture.ledger.getTransaction(success.signature as string)) as {
+      meta: { err: unknown; fee: number; preBalances: number[]; postBalances: number[] };
+      transaction: { message: { getAccountKeys(): { get(i: number): unknown } } };
+    };
+    assert.equal(tx.meta.err, null);
+    assert.ok(fixture.payer.publicKey.equals(tx.transaction.message.getAccountKeys().get(0) as never));
+    assert.equal(
+      tx.meta.preBalances[0] - tx.meta.postBalances[0],
+      0.001 * LAMPORTS_PER_SOL + tx.meta.fee
+    );
+  });
+});
+
+describe('402 → pay → retry with USDC per request', () => {
+  let fixture: Fixture;
+
+  before(async () => {
+    fixture = await setup({ price: 0.25, currency: 'USDC', model: 'per-request' });
+    fixture.ledger.createMint({ address: USDC_MINTS.mainnet, decimals: 6 });
+    fixture.ledger.mintTo(USDC_MINTS.mainnet, fixture.payer.publicKey, 1);
+  });
+  after(() => fixture.server.close());
+
+  it('pays for every request and credits the merchant', async () => {
+    const ledger = new MemoryLedger();
+    const client = fixture.client({ sessionCache: true, ledger });
+
+    for (const path of ['/paid/a', '/paid/b']) {
+      const response = await client.fetch(`${fixture.server.url}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ path }),
+      });
+      assert.equal(response.status, 200);
+      assert.deepEqual(((await response.json()) as { body: unknown }).body, { path });
+    }
+
+    assert.equal((await ledger.query({ type: 'payment_success' })).length, 2);
+    assert.equal(fixture.ledger.tokensOf(fixture.merchant.publicKey, USDC_MINTS.mainnet), BigInt(500_000));
+    assert.equal(fixture.ledger.tokensOf(fixture.payer.publicKey, USDC_MINTS.mainnet), BigInt(500_000));
+  });
+
+  it('does not accept a per-request payment twice', async () => {
+    const client = fixture.client();
+    const unpaid = await fetch(`${fixture.server.url}/paid/a`);
+    const session = await client.pay(
+      fixture.server.domain,
+      unpaid.headers.get(DNS402_HEADERS.CHALLENGE) || undefined
+    );
+    const headers = client.sessionHeaders(session);
+
+    const first = await fetch(`${fixture.server.url}/paid/a`, { headers });
+    const second = await fetch(`${fixture.server.url}/paid/a`, { headers });
+    assert.equal(first.status, 200);
+    assert.notEqual(second.status, 200);
+  });
+
+  it('refuses to pay without enough funds', async () => {
+    const client = fixture.client({ keypair: Keypair.generate().secretKey });
+    await assert.rejects(client.fetch(`${fixture.server.url}/paid/a`), /No affordable offer/);
+  });
+});
+
+describe('402 → deposit → metered requests with prepaid balances', () => {
+  let fixture: Fixture;
+
+  before(async () => {
+    fixture = await setup({
+      price: 0.01,
+      currency: 'SOL',
+      model: 'prepaid',
+      cost: ({ method }) => (method === 'POST' ? 0.004 : 0.003),
+    });
+  });
+  after(() => fixture.server.close());
+
+  it('debits each request and tops up when the balance runs out', async () => {
+    const ledger = new MemoryLedger();
+    const client = fixture.client({ sessionCache: true, ledger });
+    const balances: Array<string | null> = [];
+
+    for (const method of ['GET', 'POST', 'GET', 'POST']) {
+      const response = await client.fetch(`${fixture.server.url}/paid/report`, { method });
+      assert.equal(response.status, 200);
+      balances.push(response.headers.get(DNS402_HEADERS.BALANCE));
+    }
+
+    // 0.01 deposited, then 0.003 + 0.004 + 0.003; the last request tops up
+    assert.deepEqual(balances, ['0.007', '0.003', '0', '0.006']);
+    assert.equal((await ledger.query({ type: 'payment_success' })).length, 2);
+    assert.equal(fixture.ledger.lamportsOf(fixture.merchant.publicKey), BigInt(0.02 * LAMPORTS_PER_SOL));
+    assert.equal(fixture.server.served.length, 4);
+  });
+
+  it('answers 402 with the balance and cost when it does not cover a request', async () => {
+    const payer = Keypair.generate();
+    await fixture.ledger.airdrop(payer.publicKey, 1);
+    const client = fixture.client({ keypair: payer.secretKey, autoPay: undefined });
+    const unpaid = await fetch(`${fixture.server.url}/paid/report`);
+    const session = await client.pay(
+      fixture.server.domain,
+      unpaid.headers.get(DNS402_HEADERS.CHALLENGE) || undefined
+    );
+
+    const deposit = await fetch(`${fixture.server.url}/paid/report`, {
+      method: 'POST',
+      headers: client.sessionHeaders(session),
+    });
+    assert.equal(deposit.status, 200);
+    const token = deposit.headers.get(DNS402_HEADERS.TOKEN) as string;
+
+    const headers = { [DNS402_HEADERS.TOKEN]: token };
+    assert.equal((await fetch(`${fixture.server.url}/paid/report`, { method: 'POST', headers })).status, 200);
+    const empty = await fetch(`${fixture.server.url}/paid/report`, { method: 'POST', headers });
+
+    assert.equal(empty.status, 402);
+    assert.equal(empty.headers.get(DNS402_HEADERS.BALANCE), '0.002');
+    assert.ok(empty.headers.get(DNS402_HEADERS.CHALLENGE));
+    const body = (await empty.json()) as Record<string, unknown>;
+    assert.equal(body.error, 'Insufficient balance');
+    assert.equal(body.cost, 0.004);
+    assert.equal(body.price, 0.01);
+  });
+});
+
+describe('session quotas and the free tier', () => {
+  let fixture: Fixture;
+
+  before(async () => {
+    fixture = await setup({
+      price: 0.001,
+      currency: 'SOL',
+      model: 'session',
+      quota: { maxRequests: 2 },
+      freeTier: { requests: 2 },
+    });
+  });
+  after(() => fixture.server.close());
+
+  it('lets unpaid callers use the free tier before answering 402', async () => {
+    const remaining: Array<string | null> = [];
+    for (let i = 0; i < 2; i++) {
+      const response = await fetch(`${fixture.server.url}/paid/report`);
+      assert.equal(response.status, 200);
+      remaining.push(response.headers.get('RateLimit-Remaining'));
+    }
+    assert.deepEqual(remaining, ['1', '0']);
+
+    const unpaid = await fetch(`${fixture.server.url}/paid/report`);
+    assert.equal(unpaid.status, 402);
+    assert.equal(unpaid.headers.get('RateLimit-Limit'), '2');
+    assert.equal(unpaid.headers.get('RateLimit-Remaining'), '0');
+    assert.ok(unpaid.headers.get(DNS402_HEADERS.CHALLENGE));
+  });
+
+  it('offers a fresh 402 once a session quota is used up', async () => {
+    const ledger = new MemoryLedger();
+    const client = fixture.client({ sessionCache: true, ledger });
+    const remaining: Array<string | null> = [];
+
+    for (let i = 0; i < 3; i++) {
+      const response = await client.fetch(`${fixture.server.url}/paid/report`);
+      assert.equal(response.status, 200);
+      remaining.push(response.headers.get('RateLimit-Remaining'));
+    }
+
+    // The third request exhausts the first session and pays for a second
+    assert.deepEqual(remaining, ['1', '0', '1']);
+    assert.equal((await ledger.query({ type: 'payment_success' })).length, 2);
+  });
+});
+
+describe('session rate limits', () => {
+  let fixture: Fixture;
+
+  before(async () => {
+    fixture = await setup({ price: 0.001, currency: 'SOL', model: 'session', quota: { rate: 0.5, burst: 2 } });
+  });
+  after(() => fixture.server.close());
+
+  it('answers 429 with Retry-After beyond the burst', async () => {
+    const headers = { [DNS402_HEADERS.TOKEN]: await sessionToken(fixture) };
+
+    const second = await fetch(`${fixture.server.url}/paid/report`, { headers });
+    assert.equal(second.status, 200);
+    const third = await fetch(`${fixture.server.url}/paid/report`, { headers });
+
+    assert.equal(third.status, 429);
+    assert.equal(third.headers.get('Retry-After'), '2');
+    assert.equal(third.headers.get('RateLimit-Remaining'), '0');
+  });
+});
+
+describe('session byte budgets', () => {
+  let fixture: Fixture;
+
+  before(async () => {
+    fixture = await setup({ price: 0.001, currency: 'SOL', model: 'session', quota: { maxBytes: 40 } });
+  });
+  after(() => fixture.server.close());
+
+  it('offers a fresh 402 once the responses exceed the budget', async () => {
+    // The echoed response to the paying request alone is over 40 bytes
+    const headers = { [DNS402_HEADERS.TOKEN]: await sessionToken(fixture) };
+    const spent = await fetch(`${fixture.server.url}/paid/report`, { headers });
+
+    assert.equal(spent.status, 402);
+    assert.ok(spent.headers.get(DNS402_HEADERS.CHALLENGE));
+    assert.equal(((await spent.json()) as Record<string, unknown>).error, 'Quota exhausted');
+  });
+});
+
+describe('finality', () => {
+  let fixture: Fixture;
+
+  before(async () => {
+    fixture = await setup({ price: 0.001, currency: 'SOL', commitment: 'finalized' }, { autoFinalize: false });
+    fixture.ledger.finalize();
+  });
+  after(() => fixture.server.close());
+
+  it('advertises the commitment and waits for it before retrying', async () => {
+    const url = `${fixture.server.url}/paid/report`;
+    const unpaid = await fetch(url);
+    assert.equal(unpaid.headers.get(DNS402_HEADERS.COMMITMENT), 'finalized');
+
+    const finalizing = setInterval(() => fixture.ledger.finalize(), 10);
+    try {
+      const response = await fixture.client().fetch(url);
+      assert.equal(response.status, 200);
+    } finally {
+      clearInterval(finalizing);
+    }
+  });
+
+  it('asks for a payment that is not final yet again instead of refusing it', async () => {
+    const url = `${fixture.server.url}/paid/report`;
+    const client = fixture.client({ autoPay: undefined });
+    const unpaid = await fetch(url);
+    const session = await client.pay(
+      fixture.server.domain,
+      unpaid.headers.get(DNS402_HEADERS.CHALLENGE) || undefined
+    );
+
+    const pending = await fetch(url, { headers: client.sessionHeaders(session) });
+    assert.equal(pending.status, 402);
+    assert.equal(pending.headers.get(DNS402_HEADERS.REASON), 'not_finalized');
+    assert.equal(pending.headers.get('Retry-After'), '5');
+
+    fixture.ledger.finalize();
+    const again = await client.handlePaymentRequired(url, pending.headers, session);
+    assert.equal(again, session);
+    const paid = await fetch(url, { headers: client.sessionHeaders(session) });
+    assert.equal(paid.status, 200);
+  });
+
+  it('tells RPC failures apart from dropped transactions', async () => {
+    const options = { timeout: 30, interval: 5 };
+    const missing = await waitForFinality(fixture.ledger.connection, 'unknown', options);
+    assert.equal(missing, 'dropped');
+
+    const unreachable = {
+      getSignatureStatus: async () => {
+        throw new Error('fetch failed');
+      },
+    } as unknown as Parameters<typeof waitForFinality>[0];
+    assert.equal(await waitForFinality(unreachable, 'unknown', options), 'unknown');
+  });
+});
+
+describe('subscriptions', () => {
+  it('grant a full billing period from the payment', async () => {
+    const fixture = await setup({ price: 0.001, currency: 'SOL', model: 'subscription', sessionTTL: 3600 });
+
+    try {
+      const token = await sessionToken(fixture);
+      const claims = JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString('utf8'));
+      assert.ok(claims.expiresAt - Date.now() > 3590 * 1000);
+    } finally {
+      await fixture.server.close();
+    }
+  });
+});
+
+describe('redeeming payments', () => {
+  it('grants access when the onPayment hook throws', async () => {
+    const fixture = await setup({
+      price: 0.001,
+      currency: 'SOL',
+      onPayment: () => {
+        throw new Error('hook down');
+      },
+    });
+
+    try {
+      const response = await fixture.client().fetch(`${fixture.server.url}/paid/report`);
+      assert.equal(response.status, 200);
+    } finally {
+      await fixture.server.close();
+    }
+  });
+
+  it('gives the proof back when the payment cannot be credited', async () => {
+    const balances = new MemoryBalanceStore();
+    const credit = balances.credit.bind(balances);
+    let failures = 1;
+    balances.credit = async (account, amount) => {
+      if (failures-- > 0) {
+        throw new Error('balance store down');
+      }
+      return credit(account, amount);
+    };
+    const fixture = await setup({
+      price: 0.01,
+      currency: 'SOL',
+      model: 'prepaid',
+      cost: 0.001,
+      balanceStore: balances,
+    });
+
+    try {
+      const client = fixture.client({ autoPay: undefined });
+      const url = `${fixture.server.url}/paid/report`;
+      const unpaid = await fetch(url);
+      const session = await client.pay(
+        fixture.server.domain,
+        unpaid.headers.get(DNS402_HEADERS.CHALLENGE) || undefined
+      );
+      const failed = await fetch(url, { headers: client.sessionHeaders(session) });
+      assert.equal(failed.status, 500);
+
+      // Present the same payment again under a fresh challenge
+      const nonce = (await fetch(url)).headers.get(DNS402_HEADERS.CHALLENGE) as string;
+      const signer = KeypairSigner.fromSecretKey(fixture.payer.secretKey);
+      session.challenge = {
+        nonce,
+        signature: await signChallenge(signer, nonce, session.proof.signature),
+      };
+      const retried = await fetch(url, { headers: client.sessionHeaders(session) });
+      assert.equal(retried.status, 200);
+      assert.equal(retried.headers.get(DNS402_HEADERS.BALANCE), '0.009');
+    } finally {
+      await fixture.server.close();
+    }
+  });
+});
+
+describe('Express middleware', () => {
+  it('hands failures to the error handler', async () => {
+    const middleware = dns402({
+      price: 0.001,
+      currency: 'SOL',
+      wallet: Keypair.generate().publicKey.toBase58(),
+    });
+    const failure = new Error('header lookup failed');
+    const req = {
+      method: 'GET',
+      baseUrl: '',
+      path: '/report',
+      hostname: 'example.com',
+      get: () => {
+        throw failure;
+      },
+    };
+
+    const forwarded = await new Promise(resolve =>
+      middleware(req as unknown as Request, {} as Response, resolve)
+    );
+    assert.equal(forwarded, failure);
+  });
+});
+
+describe('challenges', () => {
+  it('are accepted once by any instance sharing the secret and replay store', async () => {
+    const fixture = await setup({ price: 0.001, currency: 'SOL' });
+    const shared = {
+      price: 0.001,
+      currency: 'SOL' as const,
+      wallet: fixture.merchant.publicKey.toBase58(),
+      sessionSecret: 'shared secret',
+      replayStore: new MemoryReplayStore(),
+    };
+    const first = await createTestApp({ paywall: shared, ledger: fixture.ledger });
+    const second = await createTestApp({ paywall: shared, ledger: fixture.ledger });
+
+    try {
+      const client = fixture.client({ autoPay: undefined });
+      const unpaid = await fetch(`${first.url}/paid/report`);
+      const session = await client.pay(
+        fixture.server.domain,
+        unpaid.headers.get(DNS402_HEADERS.CHALLENGE) || undefined
+      );
+      const headers = client.sessionHeaders(session);
+
+      const paid = await fetch(`${second.url}/paid/report`, { headers });
+      assert.equal(paid.status, 200);
+      const reused = await fetch(`${first.url}/paid/report`, { headers });
+      assert.equal(reused.status, 402);
+      assert.equal(reused.headers.get(DNS402_HEADERS.REASON), 'challenge_expired');
+      assert.equal(((await reused.json()) as Record<string, unknown>).reason, 'challenge_expired');
+    } finally {
+      await Promise.all([fixture.server.close(), first.close(), second.close()]);
+    }
+  });
+
+  it('are signed again for a payment presented under an expired one', async () => {
+    const fixture = await setup({ price: 0.001, currency: 'SOL' });
+
+    try {
+      const ledger = new MemoryLedger();
+      const client = fixture.client({ sessionCache: true, ledger });
+      await client.pay(fixture.server.domain, 'expired');
+
+      const response = await client.fetch(`${fixture.server.url}/paid/report`);
+      assert.equal(response.status, 200);
+      assert.equal((await ledger.query({ type: 'payment_success' })).length, 1);
+    } finally {
+      await fixture.server.close();
+    }
+  });
+});
+
+describe('payment callbacks', () => {
+  const terms = {
+    price: 0.001,
+    currency: 'SOL' as const,
+    callbackPath: '/dns402/callback',
+    pricing: [{ path: '/expensive', price: 0.005 }],
+  };
+
+  /**
+   * Publish a record sending notifications to `instance`
+   */
+  function advertiseCallback(fixture: Fixture, instance: TestApp): void {
+    fixture.resolver.setRecord(
+      fixture.server.domain,
+      createDNSRecord({
+        price: terms.price,
+        currency: terms.currency,
+        wallet: fixture.merchant.publicKey.toBase58(),
+        callback: `${instance.url}/paid${terms.callbackPath}`,
+      })
+    );
+  }
+
+  it('redeem a payment at the price of the request it was made for', async () => {
+    const replayStore = new MemoryReplayStore();
+    const events = new DNS402Emitter<PaywallEvents>();
+    const metrics = new DNS402Metrics();
+    metrics.observePaywall({ events });
+    let payments = 0;
+    const fixture = await setup({
+      ...terms,
+      replayStore,
+      events,
+      onPayment: () => void payments++,
+    });
+    advertiseCallback(fixture, fixture.server);
+
+    try {
+      const client = fixture.client({ sessionCache: true });
+      const response = await client.fetch(`${fixture.server.url}/paid/expensive`);
+      assert.equal(response.status, 200);
+
+      const session = client.getSession(fixture.server.domain) as DNS402Session;
+      assert.ok(await replayStore.has(`notified:${session.proof.signature}`));
+      assert.equal(payments, 1);
+      assert.equal(
+        fixture.ledger.lamportsOf(fixture.merchant.publicKey),
+        BigInt(0.005 * LAMPORTS_PER_SOL)
+      );
+
+      // The retry is verified again, but reported once
+      const text = metrics.render().split('\n');
+      assert.ok(text.includes('dns402_payments_verified_total{currency="SOL"} 1'));
+      assert.ok(text.includes('dns402_revenue_total{currency="SOL"} 0.005'));
+    } finally {
+      await fixture.server.close();
+    }
+  });
+
+  it('let any instance sharing the replay store admit the retry', async () => {
+    const fixture = await setup(terms);
+    const shared = {
+      ...terms,
+      wallet: fixture.merchant.publicKey.toBase58(),
+      sessionSecret: 'shared secret',
+      replayStore: new MemoryReplayStore(),
+    };
+    const notified = await createTestApp({ paywall: shared, ledger: fixture.ledger });
+    const serving = await createTestApp({ paywall: shared, ledger: fixture.ledger });
+    advertiseCallback(fixture, notified);
+
+    try {
+      const response = await fixture.client().fetch(`${serving.url}/paid/report`);
+      assert.equal(response.status, 200);
+      assert.deepEqual(serving.served.map(r => r.path), ['/paid/report']);
+    } finally {
+      await Promise.all([fixture.server.close(), notified.close(), serving.close()]);
+    }
+  });
+
+  it('do not admit a dearer request than the payment covers', async () => {
+    const fixture = await setup(terms);
+    advertiseCallback(fixture, fixture.server);
+    const url = fixture.server.url;
+
+    try {
+      const client = fixture.client({ autoPay: undefined });
+      const unpaid = await fetch(`${url}/paid/expensive`);
+      const session = await client.pay(
+        fixture.server.domain,
+        unpaid.headers.get(DNS402_HEADERS.CHALLENGE) || undefined
+      );
+      const expensive = await fetch(`${url}/paid/expensive`, { headers: client.sessionHeaders(session) });
+      assert.equal(expensive.status, 403);
+
+      // The payment still covers what it was notified for
+      const nonce = (await fetch(`${url}/paid/report`)).headers.get(DNS402_HEADERS.CHALLENGE) as string;
+      const signer = KeypairSigner.fromSecretKey(fixture.payer.secretKey);
+      session.challenge = {
+        nonce,
+        signature: await signChallenge(signer, nonce, session.proof.signature),
+      };
+      const cheap = await fetch(`${url}/paid/report`, { headers: client.sessionHeaders(session) });
+      assert.equal(cheap.status, 200);
+    } finally {
+      await fixture.server.close();
+    }
+  });
+
+  it('refuse a notification signed for another domain', async () => {
+    const replayStore = new MemoryReplayStore();
+    const fixture = await setup({ ...terms, replayStore });
+
+    try {
+      const client = fixture.client({ autoPay: undefined });
+      const session = await client.pay(fixture.server.domain);
+      const signer = KeypairSigner.fromSecretKey(fixture.payer.secretKey);
+      const notification = await signNotification(signer, {
+        domain: 'other.example',
+        method: 'GET',
+        path: '/paid/report',
+        signature: session.proof.signature,
+        currency: 'SOL',
+        timestamp: Date.now(),
+      });
+
+      const response = await fetch(`${fixture.server.url}/paid${terms.callbackPath}`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify(notification),
+      });
+      assert.equal(response.status, 400);
+      assert.equal(((await response.json()) as { error: string }).error, 'Wrong domain');
+      assert.equal(await replayStore.has(`notified:${session.proof.signature}`), false);
+    } finally {
+      await fixture.server.close();
+    }
+  });
+
+  it('refuse a notification whose request was changed after signing', async () => {
+    const fixture = await setup(terms);
+
+    try {
+      const signer = KeypairSigner.fromSecretKey(fixture.payer.secretKey);
+      const notification = await signNotification(signer, {
+        domain: fixture.server.domain,
+        method: 'GET',
+        path: '/paid/report',
+        signature: 'unpaid',
+        currency: 'SOL',
+        timestamp: Date.now(),
+      });
+
+      const response = await fetch(`${fixture.server.url}/paid${terms.callbackPath}`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ ...notification, path: '/paid/expensive' }),
+      });
+      assert.equal(response.status, 401);
+    } finally {
+      await fixture.server.close();
+    }
+  });
+});
+
+describe('per-route pricing', () => {
+  let fixture: Fixture;
+
+  before(async () => {
+    fixture = await setup({
+      price: 0.001,
+      currency: 'SOL',
+      pricing: [
+        { path: '/expensive', price: 0.005 },
+        { method: 'POST', path: '/compute/*', price: 0.002 },
+      ],
+    });
+  });
+  after(() => fixture.server.close());
+
+  for (const [method, path, price] of [
+    ['GET', '/paid/report', 0.001],
+    ['GET', '/paid/expensive', 0.005],
+    ['POST', '/paid/compute/job', 0.002],
+  ] as const) {
+    it(`pays ${price} SOL for ${method} ${path}`, async () => {
+      const url = `${fixture.server.url}${path}`;
+      const unpaid = await fetch(url, { method });
+      assert.equal(unpaid.headers.get(DNS402_HEADERS.PRICE), String(price));
+      assert.equal(unpaid.headers.get(DNS402_HEADERS.PRICING), price === 0.001 ? 'default' : 'route');
+
+      const before = fixture.ledger.lamportsOf(fixture.merchant.publicKey);
+      const response = await fixture.client().fetch(url, { method });
+      assert.equal(response.status, 200);
+      assert.equal(
+        fixture.ledger.lamportsOf(fixture.merchant.publicKey) - before,
+        BigInt(price * LAMPORTS_PER_SOL)
+      );
+    });
+  }
+
+  it('pays prices set by a pricing function', async () => {
+    const dynamic = await setup({
+      price: 0.001,
+      currency: 'SOL',
+      pricing: ({ path }) => (path.startsWith('/render') ? { price: 0.003, scope: 'render' } : null),
+    });
+
+    try {
+      const response = await dynamic.client().fetch(`${dynamic.server.url}/paid/render/1`);
+      assert.equal(response.status, 200);
+      assert.equal(dynamic.ledger.lamportsOf(dynamic.merchant.publicKey), BigInt(0.003 * LAMPORTS_PER_SOL));
+    } finally {
+      await dynamic.server.close();
+    }
+  });
+
+  it('keeps one session per route scope', async () => {
+    const before = fixture.ledger.lamportsOf(fixture.merchant.publicKey);
+    const client = fixture.client({ sessionCache: true });
+
+    for (let i = 0; i < 3; i++) {
+      for (const path of ['/paid/report', '/paid/expensive']) {
+        const response = await client.fetch(`${fixture.server.url}${path}`);
+        assert.equal(response.status, 200);
+        await response.text();
+      }
+    }
+
+    assert.equal(
+      fixture.ledger.lamportsOf(fixture.merchant.publicKey) - before,
+      BigInt((0.001 + 0.005) * LAMPORTS_PER_SOL)
+    );
+    const unpaid = await fetch(`${fixture.server.url}/paid/expensive`);
+    const scope = unpaid.headers.get(DNS402_HEADERS.SCOPE) as string;
+    assert.equal(client.getSession(fixture.server.domain, scope)?.scope, scope);
+  });
+
+  it('refuses a default price that disagrees with the record', async () => {
+    fixture.resolver.setRecord(
+      fixture.server.domain,
+      createDNSRecord({ price: 0.0005, currency: 'SOL', wallet: fixture.merchant.publicKey.toBase58() })
+    );
+    const before = fixture.ledger.lamportsOf(fixture.merchant.publicKey);
+
+    await assert.rejects(fixture.client().fetch(`${fixture.server.url}/paid/report`), OfferMismatchError);
+    assert.equal(fixture.ledger.lamportsOf(fixture.merchant.publicKey), before);
+  });
+});
+
+describe('offer checks', () => {
+  let fixture: Fixture;
+
+  before(async () => {
+    fixture = await setup({
+      price: 0.001,
+      currency: 'SOL',
+      pricing: [{ path: '/expensive', price: 0.005 }],
+    });
+  });
+  after(() => fixture.server.close());
+
+  for (const offerPolicy of ['require-match', 'trust-dns'] as const) {
+    it(`pays the quoted price of a route priced above the record (${offerPolicy})`, async () => {
+      const before = fixture.ledger.lamportsOf(fixture.merchant.publicKey);
+      const response = await fixture.client({ offerPolicy }).fetch(`${fixture.server.url}/paid/expensive`);
+
+      assert.equal(response.status, 200);
+      assert.equal(
+        fixture.ledger.lamportsOf(fixture.merchant.publicKey) - before,
+        BigInt(0.005 * LAMPORTS_PER_SOL)
+      );
+    });
+  }
+
+  it('keeps route prices within the auto-pay limit', async () => {
+    const before = fixture.ledger.lamportsOf(fixture.merchant.publicKey);
+    const client = fixture.client({ autoPay: { enabled: true, maxAmount: 0.002, currency: 'SOL' } });
+
+    await assert.rejects(client.fetch(`${fixture.server.url}/paid/expensive`), /No affordable offer/);
+    assert.equal(fixture.ledger.lamportsOf(fixture.merchant.publicKey), before);
+  });
+
+  it('refuses to pay when DNS and the 402 response name different wallets', async () => {
+    fixture.resolver.setRecord(
+      fixture.server.domain,
+      createDNSRecord({ price: 0.001, currency: 'SOL', wallet: Keypair.generate().publicKey.toBase58() })
+    );
+    const before = fixture.ledger.lamportsOf(fixture.merchant.publicKey);
+    const client = fixture.client();
+
+    await assert.rejects(client.fetch(`${fixture.server.url}/paid/report`), OfferMismatchError);
+    assert.equal(fixture.ledger.lamportsOf(fixture.merchant.publicKey), before);
+  });
+
+  it('fails when the domain publishes no record', async () => {
+    fixture.resolver.reset();
+    const client = fixture.client();
+
+    await assert.rejects(client.fetch(`${fixture.server.url}/paid/report`), /no DNS402 record/);
+    assert.deepEqual(fixture.resolver.lookups, [`_402.${fixture.server.domain}`]);
+  });
+});
+
+describe('signed records', () => {
+  let fixture: Fixture;
+  const paywall = { price: 0.001, currency: 'SOL' as const };
+
+  before(async () => {
+    fixture = await setup(paywall);
+  });
+  after(() => fixture.server.close());
+
+  function publish(signer?: Keypair) {
+    fixture.resolver.setRecord(
+      fixture.server.domain,
+      createDNSRecord({ ...paywall, wallet: fixture.merchant.publicKey.toBase58(), signer })
+    );
+  }
+
+  it('cannot be required without pinned keys', () => {
+    assert.throws(() => fixture.client({ requireSignedRecords: true }), /trustedAuthorities/);
+  });
+
+  it('refuses records signed by a key that is not pinned', async () => {
+    publish(fixture.merchant);
+    const client = fixture.client({
+      requireSignedRecords: true,
+      trustedAuthorities: [Keypair.generate().publicKey.toBase58()],
+    });
+
+    await assert.rejects(
+      client.fetch(`${fixture.server.url}/paid/report`),
+      (err: unknown) => err instanceof RecordSignatureError && err.reason === 'untrusted'
+    );
+  });
+
+  it('accepts records signed by a pinned wallet or authority', async () => {
+    const authority = Keypair.generate();
+    for (const signer of [fixture.merchant, authority]) {
+      publish(signer);
+      const client = fixture.client({
+        requireSignedRecords: true,
+        trustedAuthorities: [signer.publicKey.toBase58()],
+      });
+
+      const response = await client.fetch(`${fixture.server.url}/paid/report`);
+      assert.equal(response.status, 200);
+      await response.text();
+    }
+  });
+});
@@ -0,0 +1,250 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { request as httpRequest, type OutgoingHttpHeaders } from 'http';
+import { Keypair, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import { DNS402Client } from '../src/client/client';
+import {
+  attachAxios,
+  createDispatcher,
+  dns402Interceptor,
+  wrapFetch,
+  type AxiosInstanceLike,
+  type AxiosRequestConfigLike,
+  type DispatchInterceptorLike,
+  type DispatchLike,
+} from '../src/client/integrations';
+import { createDNSRecord } from '../src/server/middleware';
+import { FakeLedger, StubResolver, createTestApp, type TestApp } from '../src/testing';
+
+const terms = { price: 0.001, currency: 'SOL', model: 'session' } as const;
+const { price } = terms;
+
+let ledger: FakeLedger;
+let server: TestApp;
+let merchant: Keypair;
+let payer: Keypair;
+
+before(async () => {
+  ledger = new FakeLedger();
+  merchant = Keypair.generate();
+  payer = Keypair.generate();
+  await ledger.airdrop(payer.publicKey, 1);
+  server = await createTestApp({
+    paywall: { ...terms, wallet: merchant.publicKey.toBase58() },
+    ledger,
+  });
+});
+after(() => server.close());
+
+/**
+ * A client with no session yet, paying up to the price automatically
+ */
+function payingClient(): DNS402Client {
+  const resolver = new StubResolver();
+  resolver.setRecord(
+    server.domain,
+    createDNSRecord({ ...terms, wallet: merchant.publicKey.toBase58() })
+  );
+  return new DNS402Client({
+    keypair: payer.secretKey,
+    connection: ledger.connection,
+    resolver,
+    submission: { rebroadcastInterval: 5 },
+    sessionCache: true,
+    autoPay: { enabled: true, maxAmount: price, currency: 'SOL' },
+  });
+}
+
+/**
+ * Lamports the merchant received while running `requests`
+ */
+async function received(requests: () => Promise<void>): Promise<bigint> {
+  const before = ledger.lamportsOf(merchant.publicKey);
+  await requests();
+  return ledger.lamportsOf(merchant.publicKey) - before;
+}
+
+const onePayment = BigInt(price * LAMPORTS_PER_SOL);
+
+describe('wrapFetch', () => {
+  it('pays a 402 and reuses the session', async () => {
+    const paidFetch = wrapFetch(payingClient());
+
+    const paid = await received(async () => {
+      for (const path of ['/paid/a', '/paid/b']) {
+        const response = await paidFetch(`${server.url}${path}`);
+        assert.equal(response.status, 200);
+        assert.equal(((await response.json()) as { path: string }).path, path);
+      }
+    });
+    assert.equal(paid, onePayment);
+  });
+
+  it('sends the body of a Request object again after paying', async () => {
+    const paidFetch = wrapFetch(payingClient());
+
+    const response = await paidFetch(
+      new Request(`${server.url}/paid/orders`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ item: 42 }),
+      })
+    );
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(((await response.json()) as { body: unknown }).body, { item: 42 });
+  });
+});
+
+interface AxiosResponse {
+  status: number;
+  headers: Record<string, unknown>;
+  config: AxiosRequestConfigLike;
+  data: { path: string };
+}
+
+/**
+ * Minimal axios stand-in over fetch: runs interceptors like axios does and
+ * rejects non-2xx responses with an error carrying the response
+ */
+function fakeAxios(): AxiosInstanceLike & { get(url: string): Promise<AxiosResponse> } {
+  type Interceptors = AxiosInstanceLike['interceptors'];
+  const requestInterceptors: Array<Parameters<Interceptors['request']['use']>[0]> = [];
+  const responseInterceptors: Array<Parameters<Interceptors['response']['use']>> = [];
+
+  const axios = {
+    interceptors: {
+      request: {
+        use(...[onFulfilled]: Parameters<Interceptors['request']['use']>) {
+          return requestInterceptors.push(onFulfilled) - 1;
+        },
+      },
+      response: {
+        use(...handlers: Parameters<Interceptors['response']['use']>) {
+          return responseInterceptors.push(handlers) - 1;
+        },
+      },
+    },
+    async request(config: AxiosRequestConfigLike): Promise<unknown> {
+      for (const intercept of requestInterceptors) config = intercept(config);
+
+      const res = await fetch(new URL(config.url || '', config.baseURL), {
+        headers: config.headers as Record<string, string>,
+      });
+      const response = {
+        status: res.status,
+        headers: Object.fromEntries(res.headers),
+        config,
+        data: await res.json(),
+      };
+
+      let result: Promise<unknown> = res.ok
+        ? Promise.resolve(response)
+        : Promise.reject({ response, config });
+      for (const [onFulfilled, onRejected] of responseInterceptors) {
+        result = result.then(value => onFulfilled(value as AxiosResponse), onRejected);
+      }
+      return result;
+    },
+    get(url: string) {
+      return axios.request({ url, baseURL: server.url }) as Promise<AxiosResponse>;
+    },
+  };
+  return axios;
+}
+
+describe('attachAxios', () => {
+  it('pays a 402 and reuses the session', async () => {
+    const axios = fakeAxios();
+    attachAxios(payingClient(), axios);
+
+    const paid = await received(async () => {
+      for (const path of ['/paid/a', '/paid/b']) {
+        const response = await axios.get(path);
+        assert.equal(response.status, 200);
+        assert.equal(response.data.path, path);
+      }
+    });
+    assert.equal(paid, onePayment);
+  });
+
+  it('passes on a 402 it has already paid for', async () => {
+    const axios = fakeAxios();
+    attachAxios(payingClient(), axios);
+
+    await assert.rejects(
+      axios.request({ url: '/paid/a', baseURL: server.url, dns402Retry: true }),
+      (error: { response?: AxiosResponse }) => error.response?.status === 402
+    );
+  });
+});
+
+/**
+ * Minimal undici dispatcher over node:http, driving the handler callbacks
+ */
+const httpDispatch: DispatchLike = (options, handler) => {
+  const req = httpRequest(
+    new URL(options.path, options.origin),
+    { method: options.method, headers: options.headers as OutgoingHttpHeaders },
+    res => {
+      const rawHeaders = res.rawHeaders.map(value => Buffer.from(value, 'latin1'));
+      handler.onHeaders?.(res.statusCode as number, rawHeaders, () => {}, res.statusMessage || '');
+      res.on('data', chunk => handler.onData?.(chunk));
+      res.on('end', () => handler.onComplete?.(null));
+    }
+  );
+  req.on('error', error => handler.onError?.(error));
+  req.end(options.body as string | undefined);
+  return true;
+};
+
+/**
+ * Dispatch a GET and collect the response handed to the caller's handler
+ */
+function get(dispatch: DispatchLike, path: string): Promise<{ status: number; body: { path: string } }> {
+  return new Promise((resolve, reject) => {
+    let status = 0;
+    const chunks: Buffer[] = [];
+    dispatch(
+      { origin: server.url, path, method: 'GET', headers: { accept: 'application/json' } },
+      {
+        onHeaders: statusCode => {
+          status = statusCode;
+          return true;
+        },
+        onData: chunk => {
+          chunks.push(chunk);
+          return true;
+        },
+        onComplete: () => resolve({ status, body: JSON.parse(Buffer.concat(chunks).toString()) }),
+        onError: reject,
+      }
+    );
+  });
+}
+
+describe('dns402Interceptor', () => {
+  it('pays a 402 and reuses the session', async () => {
+    const dispatch = dns402Interceptor(payingClient())(httpDispatch);
+
+    const paid = await received(async () => {
+      for (const path of ['/paid/a', '/paid/b']) {
+        const response = await get(dispatch, path);
+        assert.equal(response.status, 200);
+        assert.equal(response.body.path, path);
+      }
+    });
+    assert.equal(paid, onePayment);
+  });
+
+  it('composes onto a dispatcher with createDispatcher', async () => {
+    const dispatcher = {
+      dispatch: httpDispatch,
+      compose: (interceptor: DispatchInterceptorLike) => ({ dispatch: interceptor(httpDispatch) }),
+    };
+
+    const response = await get(createDispatcher(payingClient(), dispatcher).dispatch, '/paid/a');
+
+    assert.equal(response.status, 200);
+  });
+});
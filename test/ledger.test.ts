@@ -0,0 +1,258 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Keypair, LAMPORTS_PER_SOL, SystemProgram, Transaction } from '@solana/web3.js';
+import { TOKEN_2022_PROGRAM_ID, getAccount, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import {
+  getBalance,
+  getMintInfo,
+  sendSOLPayment,
+  sendSPLTokenPayment,
+  verifyPayment,
+} from '../src/core/solana';
+import { SubmissionError } from '../src/core/submit';
+import type { LedgerEntry, PaymentLedger } from '../src/core/types';
+import { FileLedger, MemoryLedger, exportLedger } from '../src/client/ledger';
+import { FakeLedger } from '../src/testing';
+
+const submission = { rebroadcastInterval: 5 };
+
+describe('FakeLedger', () => {
+  it('funds accounts through airdrops', async () => {
+    const ledger = new FakeLedger();
+    const wallet = Keypair.generate();
+
+    const signature = await ledger.airdrop(wallet.publicKey, 2);
+
+    assert.equal(await ledger.getBalance(wallet.publicKey), 2 * LAMPORTS_PER_SOL);
+    const { value } = await ledger.getSignatureStatus(signature);
+    assert.equal(value?.confirmationStatus, 'finalized');
+  });
+
+  it('verifies a SOL payment from its balance changes', async () => {
+    const ledger = new FakeLedger();
+    const payer = Keypair.generate();
+    const merchant = Keypair.generate().publicKey.toBase58();
+    await ledger.airdrop(payer.publicKey, 1);
+
+    const proof = await sendSOLPayment(ledger.connection, payer, merchant, 0.5, submission);
+
+    const verification = await verifyPayment(ledger.connection, proof.signature, merchant, 0.5, 'SOL', {
+      payer: payer.publicKey.toBase58(),
+    });
+    assert.equal(verification.valid, true);
+    assert.equal(verification.received, String(0.5 * LAMPORTS_PER_SOL));
+
+    const short = await verifyPayment(ledger.connection, proof.signature, merchant, 0.6, 'SOL');
+    assert.equal(short.reason, 'insufficient_amount');
+  });
+
+  it('rejects overdrafts in preflight without charging a fee', async () => {
+    const ledger = new FakeLedger();
+    const payer = Keypair.generate();
+    await ledger.airdrop(payer.publicKey, 0.01);
+
+    await assert.rejects(
+      sendSOLPayment(ledger.connection, payer, Keypair.generate().publicKey.toBase58(), 1, submission),
+      (error: unknown) => error instanceof SubmissionError && error.result.status === 'failed'
+    );
+    assert.equal(ledger.lamportsOf(payer.publicKey), BigInt(0.01 * LAMPORTS_PER_SOL));
+  });
+
+  it('lands failing transactions sent without preflight, charging the fee', async () => {
+    const ledger = new FakeLedger();
+    const payer = Keypair.generate();
+    await ledger.airdrop(payer.publicKey, 0.01);
+
+    const transaction = new Transaction().add(
+      SystemProgram.transfer({
+        fromPubkey: payer.publicKey,
+        toPubkey: Keypair.generate().publicKey,
+        lamports: LAMPORTS_PER_SOL,
+      })
+    );
+    const signature = await ledger.sendTransaction(transaction, [payer], { skipPreflight: true });
+
+    const { value } = await ledger.getSignatureStatus(signature);
+    assert.deepEqual(value?.err, { InstructionError: [0, { Custom: 1 }] });
+    assert.equal(ledger.lamportsOf(payer.publicKey), BigInt(0.01 * LAMPORTS_PER_SOL - 5000));
+  });
+
+  it('moves Token-2022 tokens and reports token balances', async () => {
+    const ledger = new FakeLedger();
+    const payer = Keypair.generate();
+    const merchant = Keypair.generate().publicKey;
+    await ledger.airdrop(payer.publicKey, 1);
+    const mint = ledger.createMint({ decimals: 9, programId: TOKEN_2022_PROGRAM_ID });
+    ledger.mintTo(mint, payer.publicKey, 10);
+
+    const info = await getMintInfo(ledger.connection, mint.toBase58());
+    assert.equal(info.decimals, 9);
+    assert.ok(info.programId.equals(TOKEN_2022_PROGRAM_ID));
+
+    const proof = await sendSPLTokenPayment(
+      ledger.connection,
+      payer,
+      merchant.toBase58(),
+      2.5,
+      mint.toBase58(),
+      undefined,
+      submission
+    );
+
+    const verification = await verifyPayment(
+      ledger.connection,
+      proof.signature,
+      merchant.toBase58(),
+      2.5,
+      'USDC',
+      { mint: mint.toBase58() }
+    );
+    assert.equal(verification.valid, true);
+
+    const account = await getAccount(
+      ledger.connection,
+      getAssociatedTokenAddressSync(mint, merchant, true, TOKEN_2022_PROGRAM_ID),
+      'confirmed',
+      TOKEN_2022_PROGRAM_ID
+    );
+    assert.equal(account.amount, BigInt(2_500_000_000));
+
+    const balance = await getBalance(ledger.connection, payer.publicKey.toBase58(), 'TOKEN', mint.toBase58());
+    assert.deepEqual(balance, { amount: BigInt(7_500_000_000), decimals: 9 });
+  });
+
+  it('holds transactions at confirmed until finalized', async () => {
+    const ledger = new FakeLedger({ autoFinalize: false });
+    const wallet = Keypair.generate();
+    const signature = await ledger.airdrop(wallet.publicKey, 1);
+
+    assert.equal(await ledger.getTransaction(signature, { commitment: 'finalized' }), null);
+    ledger.finalize();
+    assert.notEqual(await ledger.getTransaction(signature, { commitment: 'finalized' }), null);
+  });
+});
+
+const entries: LedgerEntry[] = [
+  { type: 'discovery', timestamp: 1000, domain: 'a.example' },
+  { type: 'payment_attempt', timestamp: 2000, domain: 'a.example', paymentId: 'p1', price: 0.1, currency: 'SOL' },
+  {
+    type: 'payment_success',
+    timestamp: 3000,
+    domain: 'a.example',
+    paymentId: 'p1',
+    price: 0.1,
+    currency: 'SOL',
+    signature: 'sig1',
+  },
+  { type: 'payment_failure', timestamp: 4000, domain: 'b.example', paymentId: 'p2', error: 'expired' },
+];
+
+const ledgers: Record<string, (dir: string) => PaymentLedger> = {
+  MemoryLedger: () => new MemoryLedger(),
+  FileLedger: dir => new FileLedger(join(dir, `${Math.random().toString(36).slice(2)}.jsonl`)),
+};
+
+for (const [name, create] of Object.entries(ledgers)) {
+  describe(name, () => {
+    let dir: string;
+    before(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'dns402-'));
+    });
+    after(() => rm(dir, { recursive: true, force: true }));
+
+    async function filled(): Promise<PaymentLedger> {
+      const ledger = create(dir);
+      for (const entry of entries) await ledger.append(entry);
+      return ledger;
+    }
+
+    it('returns every entry in order without a filter', async () => {
+      assert.deepEqual(await (await filled()).query(), entries);
+    });
+
+    it('queries by domain and type', async () => {
+      const ledger = await filled();
+
+      assert.deepEqual(await ledger.query({ domain: 'a.example' }), entries.slice(0, 3));
+      assert.deepEqual(await ledger.query({ domain: 'a.example', type: 'payment_success' }), [entries[2]]);
+      assert.deepEqual(await ledger.query({ domain: 'c.example' }), []);
+    });
+
+    it('queries an inclusive time range', async () => {
+      const ledger = await filled();
+
+      assert.deepEqual(await ledger.query({ from: 2000, to: 3000 }), entries.slice(1, 3));
+      assert.deepEqual(await ledger.query({ from: 3001 }), [entries[3]]);
+      assert.deepEqual(await ledger.query({ to: 999 }), []);
+    });
+  });
+}
+
+describe('FileLedger storage', () => {
+  let dir: string;
+  before(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'dns402-'));
+  });
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  it('appends one JSON line per entry, readable by another instance', async () => {
+    const path = join(dir, 'payments.jsonl');
+    const ledger = new FileLedger(path);
+
+    await Promise.all(entries.map(entry => ledger.append(entry)));
+
+    const lines = (await readFile(path, 'utf8')).trim().split('\n');
+    assert.deepEqual(lines.map(line => JSON.parse(line)), entries);
+    assert.deepEqual(await new FileLedger(path).query({ type: 'payment_failure' }), [entries[3]]);
+  });
+
+  it('answers no entries for a file not written yet', async () => {
+    assert.deepEqual(await new FileLedger(join(dir, 'missing.jsonl')).query(), []);
+  });
+});
+
+describe('exportLedger', () => {
+  it('exports full entries as JSON', () => {
+    const withRecord: LedgerEntry = {
+      ...entries[2],
+      record: { version: 'dns402', price: 0.1, currency: 'SOL', network: 'solana', wallet: 'merchant' },
+    };
+
+    assert.deepEqual(JSON.parse(exportLedger([withRecord], 'json')), [withRecord]);
+  });
+
+  it('exports one CSV row per entry with ISO timestamps', () => {
+    assert.equal(
+      exportLedger(entries.slice(1, 3), 'csv'),
+      [
+        'timestamp,type,domain,url,paymentId,price,currency,wallet,payer,signature,error',
+        '1970-01-01T00:00:02.000Z,payment_attempt,a.example,,p1,0.1,SOL,,,,',
+        '1970-01-01T00:00:03.000Z,payment_success,a.example,,p1,0.1,SOL,,,sig1,',
+      ].join('\n')
+    );
+  });
+
+  it('quotes CSV fields holding commas, quotes or line breaks', () => {
+    const csv = exportLedger(
+      [
+        {
+          type: 'payment_failure',
+          timestamp: Date.UTC(2025, 0, 1),
+          domain: 'api.example.com',
+          url: 'https://api.example.com/search?q=a,b',
+          error: 'Transaction failed: "custom"\nerror 1',
+        },
+      ],
+      'csv'
+    );
+
+    assert.equal(
+      csv.slice(csv.indexOf('\n') + 1),
+      '2025-01-01T00:00:00.000Z,payment_failure,api.example.com,"https://api.example.com/search?q=a,b",,,,,,,' +
+        '"Transaction failed: ""custom""\nerror 1"'
+    );
+  });
+});
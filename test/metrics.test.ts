@@ -0,0 +1,115 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair } from '@solana/web3.js';
+import { DNS402Client } from '../src/client/client';
+import { createDNSRecord } from '../src/server/middleware';
+import { DNS402Emitter } from '../src/core/events';
+import type { ClientEvents, PaywallEvents } from '../src/core/types';
+import { DNS402Metrics, Histogram } from '../src/metrics';
+import { FakeLedger, StubResolver, createTestApp } from '../src/testing';
+
+describe('DNS402Emitter', () => {
+  it('delivers events to listeners until they are removed', () => {
+    const events = new DNS402Emitter<{ tick: number }>();
+    const seen: number[] = [];
+    const off = events.on('tick', n => seen.push(n));
+    events.once('tick', n => seen.push(n * 10));
+
+    events.emit('tick', 1);
+    events.emit('tick', 2);
+    off();
+    events.emit('tick', 3);
+
+    assert.deepEqual(seen, [1, 10, 2]);
+    assert.equal(events.listenerCount('tick'), 0);
+  });
+
+  it('keeps going when a listener throws', () => {
+    const events = new DNS402Emitter<{ tick: number }>();
+    const seen: number[] = [];
+    events.on('tick', () => {
+      throw new Error('broken observer');
+    });
+    events.on('tick', n => seen.push(n));
+
+    events.emit('tick', 1);
+    assert.deepEqual(seen, [1]);
+  });
+});
+
+describe('DNS402Metrics', () => {
+  it('renders histograms with cumulative buckets', () => {
+    const histogram = new Histogram('latency_seconds', 'Latency', [1, 0.1]);
+    histogram.observe(0.05);
+    histogram.observe(0.5);
+    histogram.observe(2);
+
+    assert.equal(
+      histogram.render(),
+      [
+        '# HELP latency_seconds Latency',
+        '# TYPE latency_seconds histogram',
+        'latency_seconds_bucket{le="0.1"} 1',
+        'latency_seconds_bucket{le="1"} 2',
+        'latency_seconds_bucket{le="+Inf"} 3',
+        'latency_seconds_sum 2.55',
+        'latency_seconds_count 3',
+      ].join('\n')
+    );
+  });
+
+  it('counts the events of a paid request on both sides', async () => {
+    const ledger = new FakeLedger();
+    const resolver = new StubResolver();
+    const merchant = Keypair.generate();
+    const payer = Keypair.generate();
+    await ledger.airdrop(payer.publicKey, 1);
+
+    const paywallEvents = new DNS402Emitter<PaywallEvents>();
+    const config = {
+      price: 0.001,
+      currency: 'SOL' as const,
+      wallet: merchant.publicKey.toBase58(),
+      events: paywallEvents,
+    };
+    const server = await createTestApp({ paywall: config, ledger });
+    resolver.setRecord(server.domain, createDNSRecord(config));
+
+    const clientEvents = new DNS402Emitter<ClientEvents>();
+    const client = new DNS402Client({
+      keypair: payer.secretKey,
+      connection: ledger.connection,
+      resolver,
+      submission: { rebroadcastInterval: 5 },
+      autoPay: { enabled: true, maxAmount: 1, currency: 'SOL' },
+      sessionCache: true,
+      events: clientEvents,
+    });
+
+    const metrics = new DNS402Metrics();
+    metrics.observePaywall({ events: paywallEvents });
+    metrics.observeClient(client);
+
+    try {
+      assert.equal((await client.fetch(`${server.url}/paid/a`)).status, 200);
+      assert.equal((await client.fetch(`${server.url}/paid/b`)).status, 200);
+    } finally {
+      await server.close();
+    }
+
+    const text = metrics.render();
+    for (const line of [
+      'dns402_payment_required_total{reason="unpaid"} 1',
+      'dns402_payments_verified_total{currency="SOL"} 1',
+      'dns402_revenue_total{currency="SOL"} 0.001',
+      'dns402_session_hits_total 1',
+      'dns402_verification_duration_seconds_count{result="valid"} 1',
+      'dns402_client_payments_total{currency="SOL",result="success"} 1',
+      'dns402_cache_requests_total{cache="session",result="miss"} 1',
+      'dns402_cache_requests_total{cache="session",result="hit"} 1',
+      'dns402_rpc_errors_total 0',
+    ]) {
+      assert.ok(text.split('\n').includes(line), `missing ${line}`);
+    }
+  });
+});
@@ -0,0 +1,192 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { Connection, Keypair } from '@solana/web3.js';
+import { DNS402Client } from '../src/client/client';
+import { PolicyViolationError } from '../src/client/errors';
+import { MemoryLedger } from '../src/client/ledger';
+import { SpendingPolicy } from '../src/client/policy';
+import { SubmissionError } from '../src/core/submit';
+import type { DNS402Record, PaymentIntent } from '../src/core/types';
+import { createDNSRecord } from '../src/server/middleware';
+import { FakeLedger, StubResolver } from '../src/testing';
+
+const domain = 'api.example.com';
+
+const record: DNS402Record = {
+  version: 'dns402',
+  price: 0.5,
+  currency: 'SOL',
+  network: 'solana',
+  wallet: 'merchant',
+};
+
+function intent(payment: Partial<PaymentIntent> = {}): PaymentIntent {
+  return { domain, price: 0.5, currency: 'SOL', wallet: record.wallet, record, ...payment };
+}
+
+/**
+ * Assert the policy refuses `payment` with `code`
+ */
+async function refuses(
+  policy: SpendingPolicy,
+  payment: PaymentIntent,
+  code: PolicyViolationError['code']
+): Promise<void> {
+  await assert.rejects(
+    policy.authorize(payment),
+    (error: unknown) => error instanceof PolicyViolationError && error.code === code
+  );
+}
+
+describe('SpendingPolicy', () => {
+  afterEach(() => mock.timers.reset());
+
+  it('refuses denied domains, wildcards included', async () => {
+    const policy = new SpendingPolicy({ deny: ['*.evil.example', 'spam.example'] });
+
+    await refuses(policy, intent({ domain: 'api.evil.example' }), 'denied');
+    await refuses(policy, intent({ domain: 'spam.example' }), 'denied');
+    await policy.authorize(intent({ domain: 'evil.example.org' }));
+  });
+
+  it('pays only allowed domains when an allow list is set', async () => {
+    const policy = new SpendingPolicy({ allow: ['*.example.com'], deny: ['bad.example.com'] });
+
+    await policy.authorize(intent({ domain: 'api.example.com' }));
+    await refuses(policy, intent({ domain: 'api.example.org' }), 'not_allowed');
+    // The deny list wins over the allow list
+    await refuses(policy, intent({ domain: 'bad.example.com' }), 'denied');
+  });
+
+  it('caps single payments per currency', async () => {
+    const policy = new SpendingPolicy({ maxPerPayment: { SOL: 0.5 } });
+
+    await policy.authorize(intent({ price: 0.5 }));
+    await refuses(policy, intent({ price: 0.6 }), 'over_cap');
+    await policy.authorize(intent({ price: 10, currency: 'USDC' }));
+  });
+
+  it('refuses payments over a rolling budget until the window moves on', async () => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+    const budget = { currency: 'SOL', amount: 1, window: 'hour' as const };
+    const policy = new SpendingPolicy({ budgets: [budget] });
+
+    await policy.authorize(intent());
+    mock.timers.tick(30 * 60 * 1000);
+    await policy.authorize(intent());
+    await assert.rejects(
+      policy.authorize(intent({ price: 0.1 })),
+      (error: unknown) => error instanceof PolicyViolationError && error.budget === budget
+    );
+    assert.deepEqual(policy.getBudgets(), [{ budget, spent: 1, remaining: 0 }]);
+
+    // The first payment leaves the window
+    mock.timers.tick(30 * 60 * 1000 + 1);
+    assert.equal(policy.getSpent({ window: 'hour' }), 0.5);
+    await policy.authorize(intent());
+  });
+
+  it('keeps per-domain budgets apart', async () => {
+    const policy = new SpendingPolicy({
+      budgets: [{ currency: 'SOL', amount: 0.5, window: 'day', domain: '*.example.com' }],
+    });
+
+    await policy.authorize(intent({ domain: 'a.example.com' }));
+    await refuses(policy, intent({ domain: 'b.example.com' }), 'over_budget');
+    await policy.authorize(intent({ domain: 'api.example.org' }));
+    assert.equal(policy.getSpent({ domain: '*.example.com' }), 0.5);
+  });
+
+  it('reserves payments as they are authorized and releases them on request', async () => {
+    const policy = new SpendingPolicy({ budgets: [{ currency: 'SOL', amount: 1, window: 'day' }] });
+
+    const [first, second] = await Promise.all([policy.authorize(intent()), policy.authorize(intent())]);
+    await refuses(policy, intent(), 'over_budget');
+
+    first();
+    assert.equal(policy.getSpent(), 0.5);
+    await policy.authorize(intent());
+    second();
+    assert.equal(policy.getSpent(), 0.5);
+  });
+
+  it('asks the approve hook last, releasing refused payments', async () => {
+    const asked: PaymentIntent[] = [];
+    const policy = new SpendingPolicy({
+      maxPerPayment: { SOL: 1 },
+      approve: payment => {
+        asked.push(payment);
+        return payment.domain !== 'refused.example';
+      },
+    });
+
+    await policy.authorize(intent());
+    await refuses(policy, intent({ domain: 'refused.example' }), 'not_approved');
+    await refuses(policy, intent({ price: 2 }), 'over_cap');
+
+    assert.deepEqual(asked.map(payment => payment.domain), [domain, 'refused.example']);
+    assert.equal(policy.getSpent(), 0.5);
+  });
+});
+
+describe('DNS402Client spending reservations', () => {
+  /**
+   * A client paying 0.5 SOL per session out of `funds`, through `connection`
+   */
+  async function payingClient(funds: number, connection?: (ledger: FakeLedger) => Connection) {
+    const ledger = new FakeLedger();
+    const payer = Keypair.generate();
+    await ledger.airdrop(payer.publicKey, funds);
+    const resolver = new StubResolver();
+    resolver.setRecord(
+      domain,
+      createDNSRecord({ price: 0.5, currency: 'SOL', wallet: Keypair.generate().publicKey.toBase58() })
+    );
+    const payments = new MemoryLedger();
+    const client = new DNS402Client({
+      keypair: payer.secretKey,
+      connection: connection?.(ledger) || ledger.connection,
+      resolver,
+      ledger: payments,
+      submission: { rebroadcastInterval: 5, timeout: 50 },
+      policy: { budgets: [{ currency: 'SOL', amount: 1, window: 'day' }] },
+    });
+    return { client, payments };
+  }
+
+  it('releases a payment whose transaction failed', async () => {
+    const { client, payments } = await payingClient(0.1);
+
+    await assert.rejects(client.pay(domain), SubmissionError);
+
+    assert.equal(client.getSpent({ currency: 'SOL' }), 0);
+    assert.deepEqual(
+      (await payments.query()).map(entry => entry.type),
+      ['discovery', 'payment_attempt', 'payment_failure']
+    );
+  });
+
+  it('keeps a payment of unknown outcome reserved', async () => {
+    // Transactions are sent, but their status can never be read back
+    const { client, payments } = await payingClient(1, ledger =>
+      new Proxy(ledger.connection, {
+        get(target, property) {
+          if (property === 'getSignatureStatuses') {
+            return async () => {
+              throw new Error('RPC unreachable');
+            };
+          }
+          const value = Reflect.get(target, property);
+          return typeof value === 'function' ? value.bind(target) : value;
+        },
+      })
+    );
+
+    await assert.rejects(client.pay(domain), /Could not determine the status/);
+
+    assert.equal(client.getSpent({ currency: 'SOL' }), 0.5);
+    const outcome = (await payments.query({ type: 'payment_unknown' }))[0];
+    assert.match(outcome.error as string, /Could not determine the status/);
+    assert.equal((await payments.query({ type: 'payment_failure' })).length, 0);
+  });
+});
@@ -0,0 +1,78 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createFreeTier, createSessionQuotas } from '../src/server/quota';
+import type { PaywallRequest } from '../src/core/types';
+
+function request(ip?: string): PaywallRequest {
+  return { method: 'GET', path: '/', hostname: 'example.com', ip, header: () => undefined };
+}
+
+describe('createSessionQuotas', () => {
+  afterEach(() => mock.timers.reset());
+
+  it('refills the token bucket over time', () => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+    const quotas = createSessionQuotas({ rate: 2, burst: 2 });
+    const expiresAt = 60_000;
+
+    assert.equal(quotas.take('a', expiresAt).status, 'ok');
+    assert.equal(quotas.take('a', expiresAt).status, 'ok');
+    const limited = quotas.take('a', expiresAt);
+    assert.equal(limited.status, 'limited');
+    assert.equal(limited.headers['Retry-After'], '1');
+
+    mock.timers.tick(500);
+    assert.equal(quotas.take('a', expiresAt).status, 'ok');
+    // Other sessions have their own bucket
+    assert.equal(quotas.take('b', expiresAt).status, 'ok');
+  });
+
+  it('counts requests and bytes until the session is exhausted', () => {
+    const quotas = createSessionQuotas({ maxRequests: 3, maxBytes: 100 });
+    const expiresAt = Date.now() + 60_000;
+
+    const first = quotas.take('a', expiresAt);
+    assert.deepEqual(first.headers, {
+      'RateLimit-Limit': '3',
+      'RateLimit-Remaining': '2',
+      'RateLimit-Reset': '60',
+    });
+    quotas.addBytes('a', 100);
+    assert.equal(quotas.take('a', expiresAt).status, 'exhausted');
+
+    quotas.take('b', expiresAt);
+    quotas.take('b', expiresAt);
+    quotas.take('b', expiresAt);
+    assert.equal(quotas.take('b', expiresAt).status, 'exhausted');
+  });
+
+  it('forgets expired sessions', () => {
+    const quotas = createSessionQuotas({ maxRequests: 1 });
+    quotas.take('a', Date.now() - 1);
+
+    quotas.prune();
+    assert.equal(quotas.take('a', Date.now() + 60_000).status, 'ok');
+  });
+});
+
+describe('createFreeTier', () => {
+  afterEach(() => mock.timers.reset());
+
+  it('allows a number of requests per caller and window', () => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+    const tier = createFreeTier({ requests: 1, window: 60 });
+
+    assert.equal(tier.take(request('1.2.3.4')).status, 'ok');
+    assert.equal(tier.take(request('1.2.3.4')).status, 'exhausted');
+    assert.equal(tier.take(request('5.6.7.8')).status, 'ok');
+
+    mock.timers.tick(60_000);
+    assert.equal(tier.take(request('1.2.3.4')).status, 'ok');
+  });
+
+  it('gives callers without a key no allowance', () => {
+    const tier = createFreeTier({ requests: 5, key: r => r.header('x-api-key') });
+
+    assert.equal(tier.take(request('1.2.3.4')).status, 'exhausted');
+  });
+});
@@ -0,0 +1,108 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileReplayStore, MemoryReplayStore } from '../src/server/replay';
+
+describe('MemoryReplayStore', () => {
+  afterEach(() => mock.timers.reset());
+
+  it('claims a signature once until it is released', async () => {
+    const store = new MemoryReplayStore();
+
+    assert.equal(await store.claim('a', Date.now() + 1000), true);
+    assert.equal(await store.claim('a', Date.now() + 1000), false);
+    assert.equal(await store.has('a'), true);
+
+    await store.release('a');
+    assert.equal(await store.has('a'), false);
+    assert.equal(await store.claim('a', Date.now() + 1000), true);
+  });
+
+  it('forgets claims in order of expiry', async () => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+    const store = new MemoryReplayStore();
+    for (const [signature, expiresAt] of [['c', 300], ['a', 100], ['d', 400], ['b', 200]] as const) {
+      await store.claim(signature, expiresAt);
+    }
+
+    mock.timers.tick(250);
+    const held = [];
+    for (const signature of ['a', 'b', 'c', 'd']) {
+      if (await store.has(signature)) held.push(signature);
+    }
+    assert.deepEqual(held, ['c', 'd']);
+    assert.equal(await store.claim('a', 1000), true);
+  });
+
+  it('keeps a claim made again after a release past the first expiry', async () => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+    const store = new MemoryReplayStore();
+    await store.claim('a', 100);
+    await store.release('a');
+    await store.claim('a', 1000);
+
+    mock.timers.tick(500);
+
+    assert.equal(await store.has('a'), true);
+  });
+});
+
+describe('FileReplayStore', () => {
+  afterEach(() => mock.timers.reset());
+
+  async function withFile(test: (path: string) => Promise<void>): Promise<void> {
+    const dir = await mkdtemp(join(tmpdir(), 'dns402-'));
+    try {
+      await test(join(dir, 'replay.log'));
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  it('keeps claims and releases across instances', () =>
+    withFile(async path => {
+      const expiresAt = Date.now() + 60_000;
+      const store = new FileReplayStore(path);
+      await store.claim('a', expiresAt);
+      await store.claim('b', expiresAt);
+      await store.release('a');
+
+      const reopened = new FileReplayStore(path);
+      assert.equal(await reopened.has('a'), false);
+      assert.equal(await reopened.claim('b', expiresAt), false);
+      assert.equal(await reopened.claim('a', expiresAt), true);
+    }));
+
+  it('appends releases, compacting once stale lines outnumber live ones', () =>
+    withFile(async path => {
+      const expiresAt = Date.now() + 60_000;
+      const store = new FileReplayStore(path);
+      for (const signature of ['a', 'b', 'c']) await store.claim(signature, expiresAt);
+
+      await store.release('a');
+      assert.equal(
+        await readFile(path, 'utf8'),
+        `a ${expiresAt}\nb ${expiresAt}\nc ${expiresAt}\na 0\n`
+      );
+
+      await store.release('b');
+      assert.equal(await readFile(path, 'utf8'), `c ${expiresAt}\n`);
+    }));
+
+  it('drops expired claims when loading', () =>
+    withFile(async path => {
+      mock.timers.enable({ apis: ['Date'], now: 0 });
+      const store = new FileReplayStore(path);
+      await store.claim('a', 100);
+      await store.claim('b', 1000);
+
+      mock.timers.tick(500);
+      const reopened = new FileReplayStore(path);
+
+      assert.equal(await reopened.has('a'), false);
+      assert.equal(await reopened.has('b'), true);
+      assert.equal(await readFile(path, 'utf8'), 'b 1000\n');
+    }));
+});
@@ -0,0 +1,285 @@
+import { after, afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type IncomingMessage } from 'http';
+import type { AddressInfo } from 'net';
+import { Keypair } from '@solana/web3.js';
+import { DNS402Client } from '../src/client/client';
+import { resolveRecord } from '../src/core/dns';
+import { createCachingResolver, createDoHResolver, createSystemResolver } from '../src/core/resolver';
+import type { DNS402Resolver, TxtLookup } from '../src/core/types';
+
+interface StubAnswer {
+  /** Character-strings of one TXT record */
+  chunks: string[];
+  ttl: number;
+}
+
+interface StubZone {
+  /** DNS response code to answer with */
+  rcode: number;
+  /** Whether answers are DNSSEC-validated */
+  authenticated: boolean;
+  answers: StubAnswer[];
+}
+
+interface StubQuery {
+  method: string;
+  accept?: string;
+  name: string;
+  type: string;
+}
+
+const zone: StubZone = { rcode: 0, authenticated: false, answers: [] };
+const queries: StubQuery[] = [];
+
+afterEach(() => {
+  Object.assign(zone, { rcode: 0, authenticated: false, answers: [] });
+  queries.length = 0;
+});
+
+/**
+ * RFC 8484 endpoint serving `zone`: dns-json over GET, wire format over POST
+ */
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url as string, 'http://stub');
+  if (url.pathname !== '/dns-query') {
+    res.writeHead(404).end();
+    return;
+  }
+
+  if (req.method === 'POST') {
+    const body = await readBody(req);
+    const { name, type } = parseQuestion(body);
+    queries.push({ method: 'POST', accept: req.headers.accept, name, type });
+    res.writeHead(200, { 'content-type': 'application/dns-message' });
+    res.end(wireResponse(body));
+    return;
+  }
+
+  const name = url.searchParams.get('name') as string;
+  const type = url.searchParams.get('type') as string;
+  queries.push({ method: 'GET', accept: req.headers.accept, name, type });
+  res.writeHead(200, { 'content-type': 'application/dns-json' });
+  res.end(
+    JSON.stringify({
+      Status: zone.rcode,
+      AD: zone.authenticated,
+      Answer: zone.answers.map(answer => ({
+        name,
+        type: 16,
+        TTL: answer.ttl,
+        data: answer.chunks.map(chunk => `"${chunk.replace(/"/g, '\\"')}"`).join(' '),
+      })),
+    })
+  );
+});
+const endpoint = new Promise<string>(resolve =>
+  server.listen(0, '127.0.0.1', () =>
+    resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}/dns-query`)
+  )
+);
+after(() => server.close());
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise(resolve => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+/**
+ * Read the name and type of the single question in a wire-format query
+ */
+function parseQuestion(query: Buffer): { name: string; type: string } {
+  const labels: string[] = [];
+  let offset = 12;
+  while (query[offset] !== 0) {
+    labels.push(query.subarray(offset + 1, offset + 1 + query[offset]).toString());
+    offset += query[offset] + 1;
+  }
+  return { name: labels.join('.'), type: String(query.readUInt16BE(offset + 1)) };
+}
+
+/**
+ * Answer a wire-format query from `zone`, pointing answer names at the question
+ */
+function wireResponse(query: Buffer): Buffer {
+  const header = Buffer.alloc(12);
+  header.writeUInt16BE(0x8180 | (zone.authenticated ? 0x0020 : 0) | zone.rcode, 2);
+  header.writeUInt16BE(1, 4);
+  header.writeUInt16BE(zone.answers.length, 6);
+
+  const answers = zone.answers.map(answer => {
+    const rdata = Buffer.concat(
+      answer.chunks.map(chunk => Buffer.concat([Buffer.from([chunk.length]), Buffer.from(chunk)]))
+    );
+    const fixed = Buffer.alloc(12);
+    fixed.writeUInt16BE(0xc00c, 0); // pointer to the question name
+    fixed.writeUInt16BE(16, 2);
+    fixed.writeUInt16BE(1, 4);
+    fixed.writeUInt32BE(answer.ttl, 6);
+    fixed.writeUInt16BE(rdata.length, 10);
+    return Buffer.concat([fixed, rdata]);
+  });
+
+  return Buffer.concat([header, query.subarray(12), ...answers]);
+}
+
+const record = 'v=dns402;p=0.001;c=SOL;n=solana;w=merchant';
+
+describe('createDoHResolver', () => {
+  for (const format of ['json', 'wire'] as const) {
+    describe(`${format} format`, () => {
+      it('queries the TXT records of the name', async () => {
+        const resolver = createDoHResolver({ endpoint: await endpoint, format });
+
+        await resolver.resolveTxt('_402.example.com');
+
+        assert.equal(queries.length, 1);
+        assert.equal(queries[0].method, format === 'json' ? 'GET' : 'POST');
+        assert.equal(queries[0].name, '_402.example.com');
+        assert.equal(queries[0].type, format === 'json' ? 'TXT' : '16');
+        assert.equal(queries[0].accept, `application/dns-${format === 'json' ? 'json' : 'message'}`);
+      });
+
+      it('joins chunked records and reports the lowest answer TTL', async () => {
+        zone.answers = [
+          { chunks: [record.slice(0, 20), record.slice(20)], ttl: 600 },
+          { chunks: ['v=spf1 -all'], ttl: 120 },
+        ];
+        const resolver = createDoHResolver({ endpoint: await endpoint, format });
+
+        assert.deepEqual(await resolver.resolveTxt('_402.example.com'), {
+          records: [record, 'v=spf1 -all'],
+          ttl: 120,
+          authenticated: false,
+        });
+      });
+
+      it('reports whether the answer was DNSSEC-validated', async () => {
+        zone.answers = [{ chunks: [record], ttl: 300 }];
+        zone.authenticated = true;
+        const resolver = createDoHResolver({ endpoint: await endpoint, format });
+
+        assert.equal((await resolver.resolveTxt('_402.example.com')).authenticated, true);
+      });
+
+      it('answers NXDOMAIN with no records and a short TTL', async () => {
+        zone.rcode = 3;
+        const resolver = createDoHResolver({ endpoint: await endpoint, format });
+
+        assert.deepEqual(await resolver.resolveTxt('_402.missing.example'), {
+          records: [],
+          ttl: 60,
+          authenticated: false,
+        });
+      });
+
+      it('fails on other DNS errors', async () => {
+        zone.rcode = 2;
+        const resolver = createDoHResolver({ endpoint: await endpoint, format });
+
+        await assert.rejects(resolver.resolveTxt('_402.example.com'), /DNS status 2/);
+      });
+    });
+  }
+
+  it('fails when the endpoint answers with an HTTP error', async () => {
+    const resolver = createDoHResolver({ endpoint: (await endpoint).replace('dns-query', 'missing') });
+
+    await assert.rejects(resolver.resolveTxt('_402.example.com'), /HTTP 404/);
+  });
+});
+
+describe('createCachingResolver', () => {
+  afterEach(() => mock.timers.reset());
+
+  /**
+   * Resolver counting its lookups, answering with the given TTL
+   */
+  function counting(ttl: number): DNS402Resolver & { lookups: number } {
+    const resolver = {
+      lookups: 0,
+      async resolveTxt(): Promise<TxtLookup> {
+        resolver.lookups++;
+        return { records: [record], ttl };
+      },
+    };
+    return resolver;
+  }
+
+  it('caches DoH answers for their TTL', async () => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+    zone.answers = [{ chunks: [record], ttl: 30 }];
+    const resolver = createCachingResolver(createDoHResolver({ endpoint: await endpoint }));
+
+    await resolver.resolveTxt('_402.example.com');
+    mock.timers.tick(29_000);
+    await resolver.resolveTxt('_402.EXAMPLE.com');
+    assert.equal(queries.length, 1);
+
+    mock.timers.tick(1_000);
+    await resolver.resolveTxt('_402.example.com');
+    assert.equal(queries.length, 2);
+  });
+
+  it('shares one query between concurrent lookups', async () => {
+    const backend = counting(300);
+    const resolver = createCachingResolver(backend);
+
+    await Promise.all([0, 1, 2].map(() => resolver.resolveTxt('_402.example.com')));
+
+    assert.equal(backend.lookups, 1);
+  });
+
+  it('keeps TTLs within the configured bounds', async () => {
+    mock.timers.enable({ apis: ['Date'], now: 0 });
+    const short = counting(1);
+    const long = counting(86400);
+    const resolvers = [
+      createCachingResolver(short, { minTTL: 60 }),
+      createCachingResolver(long, { maxTTL: 60 }),
+    ];
+
+    for (const resolver of resolvers) await resolver.resolveTxt('_402.example.com');
+    mock.timers.tick(59_000);
+    for (const resolver of resolvers) await resolver.resolveTxt('_402.example.com');
+    assert.deepEqual([short.lookups, long.lookups], [1, 1]);
+
+    mock.timers.tick(1_000);
+    for (const resolver of resolvers) await resolver.resolveTxt('_402.example.com');
+    assert.deepEqual([short.lookups, long.lookups], [2, 2]);
+  });
+});
+
+describe('requireDNSSEC', () => {
+  const unsupported = /requireDNSSEC needs a resolver that reports DNSSEC validation/;
+
+  it('only accepts DNSSEC-validated answers', async () => {
+    zone.answers = [{ chunks: [record], ttl: 300 }];
+    const resolver = createCachingResolver(createDoHResolver({ endpoint: await endpoint }), { maxTTL: 0 });
+
+    assert.equal(await resolveRecord('example.com', { resolver, requireDNSSEC: true }), null);
+    zone.authenticated = true;
+    assert.equal((await resolveRecord('example.com', { resolver, requireDNSSEC: true }))?.price, 0.001);
+  });
+
+  it('refuses resolvers that cannot report DNSSEC validation', async () => {
+    for (const resolver of [createSystemResolver(), createCachingResolver(createSystemResolver())]) {
+      await assert.rejects(resolveRecord('example.com', { resolver, requireDNSSEC: true }), unsupported);
+    }
+  });
+
+  it('is refused by a client resolving through the system resolver', async () => {
+    const keypair = Keypair.generate().secretKey;
+
+    assert.throws(() => new DNS402Client({ keypair, requireDNSSEC: true }), unsupported);
+    assert.throws(
+      () => new DNS402Client({ keypair, requireDNSSEC: true, dnsResolver: async () => record }),
+      /cannot be used with dnsResolver/
+    );
+    const resolver = createDoHResolver({ endpoint: await endpoint });
+    assert.ok(new DNS402Client({ keypair, requireDNSSEC: true, resolver }));
+  });
+});
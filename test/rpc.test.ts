@@ -0,0 +1,146 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { Keypair } from '@solana/web3.js';
+import { RpcPool } from '../src/core/rpc';
+import { sendSOLPayment, verifyPayment } from '../src/core/solana';
+import { FakeLedger } from '../src/testing';
+
+interface StubNode {
+  url: string;
+  /** JSON-RPC methods called, in order */
+  calls: string[];
+  /** HTTP status to answer with */
+  status: number;
+  server: Server;
+}
+
+const nodes: StubNode[] = [];
+after(() => nodes.forEach(node => node.server.close()));
+
+/**
+ * JSON-RPC endpoint answering getSlot with `slot` and getHealth with 'ok'
+ */
+async function stubNode(slot: number, status = 200): Promise<StubNode> {
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const { id, method } = JSON.parse(body) as { id: unknown; method: string };
+      node.calls.push(method);
+      res.writeHead(node.status, { 'content-type': 'application/json' });
+      res.end(JSON.stringify({ jsonrpc: '2.0', id, result: method === 'getHealth' ? 'ok' : slot }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const node: StubNode = {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    calls: [],
+    status,
+    server,
+  };
+  nodes.push(node);
+  return node;
+}
+
+describe('RpcPool', () => {
+  it('fails over from an endpoint answering 5xx and passes over it afterwards', async () => {
+    const down = await stubNode(1, 503);
+    const up = await stubNode(2);
+    const pool = new RpcPool({ endpoints: [down.url, up.url], healthCheckInterval: 0 });
+
+    assert.equal(await pool.connection.getSlot(), 2);
+    assert.equal(await pool.connection.getSlot(), 2);
+
+    assert.deepEqual(down.calls, ['getSlot']);
+    const [first] = pool.status();
+    assert.equal(first.healthy, false);
+    assert.equal(first.lastError, 'HTTP 503');
+  });
+
+  it('fails over from an unreachable endpoint', async () => {
+    const up = await stubNode(7);
+    const pool = new RpcPool({ endpoints: ['http://127.0.0.1:1', up.url], healthCheckInterval: 0 });
+
+    assert.equal(await pool.connection.getSlot(), 7);
+    assert.equal(pool.status()[0].failures, 1);
+  });
+
+  it('spreads requests over endpoints at their rate limit', async () => {
+    const limited = await stubNode(1);
+    const spare = await stubNode(2);
+    const pool = new RpcPool({
+      endpoints: [{ url: limited.url, rateLimit: 1 }, spare.url],
+      healthCheckInterval: 0,
+    });
+
+    const slots = [];
+    for (let i = 0; i < 3; i++) {
+      slots.push(await pool.connection.getSlot());
+    }
+
+    assert.deepEqual(slots, [1, 2, 2]);
+  });
+
+  it('brings endpoints back once they pass a health check', async () => {
+    const flaky = await stubNode(1, 500);
+    const up = await stubNode(2);
+    const pool = new RpcPool({ endpoints: [flaky.url, up.url], healthCheckInterval: 0 });
+    await pool.connection.getSlot();
+
+    flaky.status = 200;
+    await pool.check();
+
+    assert.equal(pool.status()[0].healthy, true);
+    assert.equal(await pool.connection.getSlot(), 1);
+  });
+});
+
+describe('verifyPayment caching', () => {
+  it('collapses concurrent verifications of a signature into one lookup', async () => {
+    const ledger = new FakeLedger();
+    const payer = Keypair.generate();
+    const merchant = Keypair.generate().publicKey.toBase58();
+    await ledger.airdrop(payer.publicKey, 1);
+    const proof = await sendSOLPayment(ledger.connection, payer, merchant, 0.5, { rebroadcastInterval: 5 });
+
+    let lookups = 0;
+    const getTransaction = ledger.getTransaction.bind(ledger);
+    ledger.getTransaction = ((...args: Parameters<typeof getTransaction>) => {
+      lookups++;
+      return getTransaction(...args);
+    }) as typeof ledger.getTransaction;
+
+    const results = await Promise.all(
+      [0, 1, 2].map(() => verifyPayment(ledger.connection, proof.signature, merchant, 0.5, 'SOL'))
+    );
+    assert.equal(lookups, 1);
+    assert.ok(results.every(r => r.valid));
+    assert.deepEqual(
+      results.map(r => !!r.cached),
+      [false, true, true]
+    );
+
+    await verifyPayment(ledger.connection, proof.signature, merchant, 0.5, 'SOL', { cache: false });
+    assert.equal(lookups, 2);
+  });
+
+  it('looks up transactions again until they are found', async () => {
+    const ledger = new FakeLedger({ autoFinalize: false });
+    const payer = Keypair.generate();
+    const merchant = Keypair.generate().publicKey.toBase58();
+    await ledger.airdrop(payer.publicKey, 1);
+    ledger.finalize();
+    const proof = await sendSOLPayment(ledger.connection, payer, merchant, 0.1, { rebroadcastInterval: 5 });
+    const options = { commitment: 'finalized' as const };
+
+    const pending = await verifyPayment(ledger.connection, proof.signature, merchant, 0.1, 'SOL', options);
+    assert.equal(pending.reason, 'not_finalized');
+
+    ledger.finalize();
+    const final = await verifyPayment(ledger.connection, proof.signature, merchant, 0.1, 'SOL', options);
+    assert.equal(final.valid, true);
+    assert.equal(final.cached, undefined);
+  });
+});
@@ -0,0 +1,134 @@
+import { after, afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { ed25519 } from '@noble/curves/ed25519';
+import { Keypair, SystemProgram, Transaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { RemoteSigner } from '../src/core/signer';
+
+interface SignRequest {
+  authorization?: string;
+  publicKey: string;
+  kind: 'transaction' | 'message';
+  message: string;
+}
+
+type StubMode = 'sign' | 'wrong-key' | 'no-signature' | 'error' | 'hang';
+
+const key = Keypair.generate();
+const stub: { mode: StubMode; requests: SignRequest[] } = { mode: 'sign', requests: [] };
+
+afterEach(() => {
+  stub.mode = 'sign';
+  stub.requests = [];
+});
+
+/**
+ * Signing service holding `key`, misbehaving as `stub.mode` says
+ */
+const server = createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => (body += chunk));
+  req.on('end', () => {
+    const request = JSON.parse(body) as SignRequest;
+    stub.requests.push({ ...request, authorization: req.headers.authorization });
+
+    if (stub.mode === 'hang') return;
+    if (stub.mode === 'error') {
+      res.writeHead(503).end();
+      return;
+    }
+
+    const secret = (stub.mode === 'wrong-key' ? Keypair.generate() : key).secretKey.slice(0, 32);
+    const signature = ed25519.sign(Buffer.from(request.message, 'base64'), secret);
+    res.writeHead(200, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(stub.mode === 'no-signature' ? {} : { signature: bs58.encode(signature) }));
+  });
+});
+const endpoint = new Promise<string>(resolve =>
+  server.listen(0, '127.0.0.1', () =>
+    resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}/sign`)
+  )
+);
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+async function remoteSigner(timeout?: number): Promise<RemoteSigner> {
+  return new RemoteSigner({
+    endpoint: await endpoint,
+    publicKey: key.publicKey.toBase58(),
+    headers: { authorization: 'Bearer secret' },
+    timeout,
+  });
+}
+
+function transfer(): Transaction {
+  const transaction = new Transaction({
+    feePayer: key.publicKey,
+    recentBlockhash: Keypair.generate().publicKey.toBase58(),
+  });
+  return transaction.add(
+    SystemProgram.transfer({
+      fromPubkey: key.publicKey,
+      toPubkey: Keypair.generate().publicKey,
+      lamports: 1000,
+    })
+  );
+}
+
+describe('RemoteSigner', () => {
+  it('signs transactions through the service', async () => {
+    const signer = await remoteSigner();
+    const transaction = transfer();
+
+    await signer.signTransaction(transaction);
+
+    assert.ok(transaction.verifySignatures());
+    assert.deepEqual(stub.requests, [
+      {
+        authorization: 'Bearer secret',
+        publicKey: key.publicKey.toBase58(),
+        kind: 'transaction',
+        message: transaction.serializeMessage().toString('base64'),
+      },
+    ]);
+  });
+
+  it('signs messages through the service', async () => {
+    const signer = await remoteSigner();
+    const message = new TextEncoder().encode('dns402-challenge');
+
+    const signature = await signer.signMessage(message);
+
+    assert.ok(ed25519.verify(signature, message, key.publicKey.toBytes()));
+    assert.equal(stub.requests[0].kind, 'message');
+  });
+
+  it('fails when the service answers with an HTTP error', async () => {
+    stub.mode = 'error';
+    const signer = await remoteSigner();
+
+    await assert.rejects(signer.signMessage(new Uint8Array([1])), /HTTP 503/);
+  });
+
+  for (const mode of ['wrong-key', 'no-signature'] as const) {
+    it(`refuses an invalid signature (${mode})`, async () => {
+      stub.mode = mode;
+      const signer = await remoteSigner();
+      const transaction = transfer();
+
+      await assert.rejects(signer.signTransaction(transaction), /invalid signature/);
+      assert.equal(transaction.signature, null);
+    });
+  }
+
+  it('gives up on a service that does not answer', async () => {
+    stub.mode = 'hang';
+    const signer = await remoteSigner(100);
+
+    await assert.rejects(signer.signMessage(new Uint8Array([1])), /did not answer within 100ms/);
+  });
+});
@@ -5,6 +5,9 @@ export default defineConfig({
     'index': 'src/index.ts',
     'client/index': 'src/client/index.ts',
     'server/index': 'src/server/index.ts',
+    'cli/index': 'src/cli/index.ts',
+    'metrics/index': 'src/metrics/index.ts',
+    'testing/index': 'src/testing/index.ts',
   },
   format: ['cjs', 'esm'],
   dts: true,